@@ -1,21 +1,13 @@
 import { StatusBar } from "expo-status-bar";
-import React, { useRef, useState } from "react";
-import WebView, { WebViewMessageEvent } from "react-native-webview";
+import React, { useEffect, useState } from "react";
+import { BackHandler } from "react-native";
 import { SafeAreaProvider } from "react-native-safe-area-context";
 import { GestureHandlerRootView } from "react-native-gesture-handler";
-import { useAvatarCreatorUrl } from "./src/hooks/use-avatar-creator-url";
-import {
-  AssetUnlockedEvent,
-  AvatarCreatorEvent,
-  AvatarExportedEvent,
-  UserAuthorizedEvent,
-  UserSetEvent,
-  UserUpdatedEvent,
-  UserLoggedOutEvent,
-} from "./src";
-import AvatarPage from "./src/pages/avatar";
-import WelcomeScreen from "./src/screens/WelcomeScreen";
-import TrainingScreen from "./src/screens/TrainingScreen";
+import { useOnboardingFlow } from "./src/hooks/use-onboarding-flow";
+import { ONBOARDING_STEP_SCREENS } from "./src/onboarding/steps";
+import { useOnboardingHydrated } from "./src/state/onboardingStore";
+import ResumeScreen from "./src/screens/ResumeScreen";
+import { watchKnowledgeStore } from "./src/knowledge";
 
 /*
 IMPORTANT NOTICE: DO NOT REMOVE
@@ -38,140 +30,53 @@ const openai_api_key = Constants.expoConfig.extra.apikey;
 
 */
 
-const RPM_TARGET = "readyplayerme";
-
-// Replace with your custom subdomain
-const subdomain = "demo";
-
 export default function App() {
-  const webView = useRef<WebView | null>(null);
-  const url = useAvatarCreatorUrl(subdomain, {});
-
-  const [avatarId, setAvatarId] = useState<string>();
-  const [userName, setUserName] = useState<string>();
-  const [showWelcome, setShowWelcome] = useState(true);
-  const [showTraining, setShowTraining] = useState(false);
-
-  const supportedEvents = {
-    "v1.avatar.exported": onAvatarExported,
-    "v1.user.set": onUserSet,
-    "v1.user.authorized": onUserAuthorized,
-    "v1.asset.unlock": onAssetUnlocked,
-    "v1.user.updated": onUserUpdated,
-    "v1.user.logout": onUserLoggedOut,
-  } as Record<string, any>;
-
-  function onAvatarExported(message: AvatarExportedEvent) {
-    setAvatarId(message.data.avatarId);
-  }
-
-  function onAssetUnlocked(message: AssetUnlockedEvent) {
-    console.log(`Asset Unlocked | Asset ID = ${message.data?.assetId}`);
-  }
-
-  function onUserAuthorized(message: UserAuthorizedEvent) {
-    console.log(`User Authorized | User ID = ${message.data?.id}`);
-  }
-
-  function onUserSet(message: UserSetEvent) {
-    console.log(`User Set | User ID = ${message.data?.id}`);
-  }
-
-  function onUserUpdated(message: UserUpdatedEvent) {
-    console.log(`User Updated | User ID = ${message.data?.id}`);
-  }
-
-  function onUserLoggedOut(message: UserLoggedOutEvent) {
-    console.log("User Logged Out");
-  }
-
-  function onWebViewLoaded() {
-    webView.current?.postMessage(
-      JSON.stringify({
-        target: "readyplayerme",
-        type: "subscribe",
-        eventName: "v1.**",
-      })
-    );
-  }
-
-  function onMessageReceived(message: WebViewMessageEvent) {
-    const data = message.nativeEvent.data;
-    const event = JSON.parse(data) as AvatarCreatorEvent;
-
-    if (event?.source !== RPM_TARGET || !event.eventName) {
-      return;
+  const flow = useOnboardingFlow();
+  const hydrated = useOnboardingHydrated();
+  // null until progress is loaded, then whether this launch resumed an unfinished flow
+  const [showResumeScreen, setShowResumeScreen] = useState<boolean | null>(null);
+  const { component: StepScreen, statusBarStyle } = ONBOARDING_STEP_SCREENS[flow.step];
+
+  useEffect(() => {
+    if (hydrated && showResumeScreen === null) {
+      setShowResumeScreen(flow.step !== "welcome" && flow.step !== "done");
     }
-
-    supportedEvents[event.eventName]?.(event);
-  }
-
-  const handleWelcomeComplete = (firstName: string) => {
-    setUserName(firstName);
-    setShowWelcome(false);
-  };
-
-  const handleShowTraining = () => {
-    setShowTraining(true);
-  };
-
-  const handleTrainingComplete = () => {
-    // Restart the flow
-    setShowTraining(false);
-    setAvatarId(undefined);
-    setUserName(undefined);
-    setShowWelcome(true);
-  };
-
-  if (showTraining) {
-    return (
-      <GestureHandlerRootView style={{ flex: 1 }}>
-        <SafeAreaProvider>
-          <TrainingScreen onComplete={handleTrainingComplete} />
-          <StatusBar style="dark" />
-        </SafeAreaProvider>
-      </GestureHandlerRootView>
-    );
-  }
-
-  if (showWelcome) {
-    return (
-      <GestureHandlerRootView style={{ flex: 1 }}>
-        <SafeAreaProvider>
-          <WelcomeScreen onComplete={handleWelcomeComplete} />
-          <StatusBar style="dark" />
-        </SafeAreaProvider>
-      </GestureHandlerRootView>
-    );
-  }
-
-  if (avatarId) {
-    return (
-      <GestureHandlerRootView style={{ flex: 1 }}>
-        <SafeAreaProvider>
-          <AvatarPage
-            clearAvatar={() => setAvatarId("")}
-            avatarId={avatarId}
-            userName={userName || "there"}
-            onShowTraining={handleShowTraining}
-          />
-          <StatusBar style="light" />
-        </SafeAreaProvider>
-      </GestureHandlerRootView>
-    );
+  }, [hydrated, showResumeScreen, flow.step]);
+
+  // Keep the agent's knowledge index in step with the training workspace
+  useEffect(() => watchKnowledgeStore(), []);
+
+  // Android hardware back walks the onboarding history where the current step allows it
+  useEffect(() => {
+    const subscription = BackHandler.addEventListener("hardwareBackPress", () => {
+      if (!flow.canGoBack) return false;
+      flow.back();
+      return true;
+    });
+    return () => subscription.remove();
+  }, [flow]);
+
+  // Wait for persisted progress so a resumed flow doesn't start the intro first
+  if (!hydrated || showResumeScreen === null) {
+    return null;
   }
 
   return (
     <GestureHandlerRootView style={{ flex: 1 }}>
       <SafeAreaProvider>
-        <WebView
-          ref={webView}
-          style={{ marginTop: 30 }}
-          onLoad={onWebViewLoaded}
-          onMessage={onMessageReceived}
-          source={{ uri: url }}
-        />
-        <StatusBar style="auto" />
+        {showResumeScreen ? (
+          <ResumeScreen
+            firstName={flow.context.firstName}
+            onContinue={() => setShowResumeScreen(false)}
+            onStartOver={() => {
+              flow.reset();
+              setShowResumeScreen(false);
+            }}
+          />
+        ) : (
+          <StepScreen flow={flow} />
+        )}
+        <StatusBar style={statusBarStyle} />
       </SafeAreaProvider>
     </GestureHandlerRootView>
   );
@@ -0,0 +1,102 @@
+/*
+IMPORTANT NOTICE: DO NOT REMOVE
+./src/api/agent-chat.ts
+Answers questions as the user's trained sales agent. Answers are grounded in the local knowledge base,
+cite the notes they came from, and admit when the training doesn't cover the question.
+*/
+import { AIMessage, AIStreamOptions } from "../types/ai";
+import { getAIService } from "./ai-service";
+import { knowledgeBase, KnowledgeSearchResult, KnowledgeSource, syncKnowledgeIndex } from "../knowledge";
+import { getLocale, LOCALES, translate } from "../i18n";
+
+export interface AgentChatMessage {
+  role: "user" | "assistant";
+  content: string;
+  citations?: KnowledgeSource[];
+}
+
+export interface AgentAnswer {
+  content: string;
+  citations: KnowledgeSource[];
+  grounded: boolean;
+}
+
+// Chunks scoring below this are treated as unrelated to the question
+const MIN_RELEVANCE = 0.3;
+const MAX_SOURCES = 5;
+
+// What the agent says when its training doesn't cover a question, in the current language
+export const getUnknownAnswer = () => translate("chat.unknownAnswer");
+
+const buildSystemPrompt = (agentName: string, results: KnowledgeSearchResult[]) => {
+  const sources = results
+    .map((result, i) => `[${i + 1}] (${result.chunk.source.title})\n${result.chunk.text}`)
+    .join("\n\n");
+
+  return [
+    `You are ${agentName}, a digital sales agent for the user's business.`,
+    "Answer only from the numbered sources below. They are everything you know about the business.",
+    "Cite the sources you use inline, like [1] or [2][3].",
+    `If the sources don't contain the answer, say plainly that you don't know instead of guessing, for example: "${getUnknownAnswer()}"`,
+    `Always answer in ${LOCALES[getLocale()].englishName}, even if the sources are in another language.`,
+    "Keep answers short and conversational, in the tone of voice the sources describe if any.",
+    "",
+    "Sources:",
+    sources,
+  ].join("\n");
+};
+
+// Map [n] markers in the answer back to the sources they refer to
+const extractCitations = (content: string, results: KnowledgeSearchResult[]): KnowledgeSource[] => {
+  const cited = new Map<string, KnowledgeSource>();
+  for (const match of content.matchAll(/\[(\d+)\]/g)) {
+    const result = results[Number(match[1]) - 1];
+    if (result) {
+      cited.set(result.chunk.source.documentId, result.chunk.source);
+    }
+  }
+  return [...cited.values()];
+};
+
+/**
+ * Ask the trained agent a question
+ * @param question - The user's question
+ * @param history - Earlier turns of the conversation, oldest first
+ * @param agentName - What the agent calls itself
+ * @param options - Abort signal, and a callback that receives the answer as it streams in
+ * @returns The answer, the sources it cited, and whether any training material was relevant
+ */
+export const askAgent = async (
+  question: string,
+  history: AgentChatMessage[],
+  agentName = "your agent",
+  options?: Pick<AIStreamOptions, "signal" | "onDelta">,
+): Promise<AgentAnswer> => {
+  // Training edited moments ago may still be waiting for the watcher; unchanged documents aren't re-embedded
+  await syncKnowledgeIndex();
+  const results = await knowledgeBase.search(question, { topK: MAX_SOURCES, minScore: MIN_RELEVANCE });
+
+  if (results.length === 0) {
+    const unknownAnswer = getUnknownAnswer();
+    options?.onDelta?.(unknownAnswer);
+    return { content: unknownAnswer, citations: [], grounded: false };
+  }
+
+  const messages: AIMessage[] = [
+    ...history.map((message) => ({ role: message.role, content: message.content })),
+    { role: "user", content: question },
+  ];
+
+  const response = await getAIService().stream(messages, {
+    system: buildSystemPrompt(agentName, results),
+    temperature: 0.2,
+    feature: "agentChat",
+    ...options,
+  }).response;
+
+  return {
+    content: response.content,
+    citations: extractCitations(response.content, results),
+    grounded: true,
+  };
+};
@@ -0,0 +1,43 @@
+/*
+IMPORTANT NOTICE: DO NOT REMOVE
+./src/api/ai-messages.ts
+Helpers for building and inspecting AIMessage content. Use these to attach images (product photos, brochures)
+to a message; the adapters in chat-service.ts translate them for each provider.
+*/
+import { AIContentPart, AIImageMediaType, AIMessage } from "../types/ai";
+
+/**
+ * Get the text of a message's content, ignoring any images
+ * @param content - Plain text or content parts
+ * @returns The text parts joined with blank lines
+ */
+export const getTextContent = (content: AIMessage["content"]): string => {
+  if (typeof content === "string") return content;
+  return content
+    .filter((part) => part.type === "text")
+    .map((part) => part.text)
+    .join("\n\n");
+};
+
+/**
+ * Check whether any message carries an image, which needs a vision-capable model
+ * @param messages - The messages to check
+ */
+export const hasImageContent = (messages: AIMessage[]): boolean =>
+  messages.some((message) => typeof message.content !== "string" && message.content.some((p) => p.type === "image"));
+
+/**
+ * Create an image part from a URL
+ * @param url - A publicly reachable image URL
+ */
+export const imageFromUrl = (url: string): AIContentPart => ({ type: "image", source: { type: "url", url } });
+
+/**
+ * Create an image part from base64 data, e.g. from expo-file-system or expo-image-picker
+ * @param data - The base64 image data, without a data: prefix
+ * @param mediaType - The image's MIME type
+ */
+export const imageFromBase64 = (data: string, mediaType: AIImageMediaType = "image/jpeg"): AIContentPart => ({
+  type: "image",
+  source: { type: "base64", mediaType, data },
+});
@@ -0,0 +1,197 @@
+/*
+IMPORTANT NOTICE: DO NOT REMOVE
+./src/api/ai-service.ts
+Provider-agnostic access to the chat models. Callers should depend on AIService from here rather than
+on the vendor-specific functions in chat-service.ts, so providers can be swapped or fall back to each other.
+*/
+import { AIMessage, AIRequestOptions, AIResponse, AIService, AIStream, AIStreamOptions } from "../types/ai";
+import {
+  getAnthropicTextResponse,
+  getGrokTextResponse,
+  getOpenAITextResponse,
+  streamAnthropicTextResponse,
+  streamGrokTextResponse,
+  streamOpenAITextResponse,
+} from "./chat-service";
+import { createAIStream } from "./ai-stream";
+import { hasImageContent } from "./ai-messages";
+
+export type AIProviderName = "anthropic" | "openai" | "grok";
+
+export type AICapability = "text" | "vision";
+
+export interface AIProvider {
+  name: AIProviderName;
+  capabilities: AICapability[];
+  service: AIService;
+}
+
+export class AIServiceUnavailableError extends Error {
+  readonly errors: { provider: AIProviderName; error: unknown }[];
+
+  constructor(errors: { provider: AIProviderName; error: unknown }[]) {
+    super(`All AI providers failed: ${errors.map((e) => e.provider).join(", ") || "none configured"}`);
+    this.name = "AIServiceUnavailableError";
+    this.errors = errors;
+  }
+}
+
+const createService = (
+  textResponse: (messages: AIMessage[], options?: AIRequestOptions) => Promise<AIResponse>,
+  streamResponse: (messages: AIMessage[], options?: AIStreamOptions) => AIStream,
+): AIService => ({
+  chat: (messages, options) => textResponse(messages, options),
+  complete: (prompt, options) => textResponse([{ role: "user", content: prompt }], options),
+  stream: (messages, options) => streamResponse(messages, options),
+});
+
+export const anthropicProvider: AIProvider = {
+  name: "anthropic",
+  capabilities: ["text", "vision"],
+  service: createService(getAnthropicTextResponse, streamAnthropicTextResponse),
+};
+
+export const openAIProvider: AIProvider = {
+  name: "openai",
+  capabilities: ["text", "vision"],
+  service: createService(getOpenAITextResponse, streamOpenAITextResponse),
+};
+
+export const grokProvider: AIProvider = {
+  name: "grok",
+  capabilities: ["text"],
+  service: createService(getGrokTextResponse, streamGrokTextResponse),
+};
+
+export interface AIServiceRegistry {
+  register(provider: AIProvider): void;
+  get(name: AIProviderName): AIService;
+  select(capability: AICapability): AIService;
+  setFallbackChain(chain: AIProviderName[]): void;
+  getFallbackChain(): AIProviderName[];
+  withFallback(chain?: AIProviderName[]): AIService;
+}
+
+/**
+ * Create a registry of AI providers
+ * @param providers - Providers available for lookup and fallback
+ * @param fallbackChain - Order in which providers are tried by withFallback() and select()
+ */
+export const createAIServiceRegistry = (
+  providers: AIProvider[],
+  fallbackChain: AIProviderName[],
+): AIServiceRegistry => {
+  const registered = new Map<AIProviderName, AIProvider>();
+  providers.forEach((provider) => registered.set(provider.name, provider));
+  let chain = [...fallbackChain];
+
+  const getProvider = (name: AIProviderName) => {
+    const provider = registered.get(name);
+    if (!provider) {
+      throw new Error(`AI provider "${name}" is not registered`);
+    }
+    return provider;
+  };
+
+  // Try each provider in order until one succeeds
+  const run = async (
+    names: AIProviderName[],
+    call: (service: AIService, options?: AIRequestOptions) => Promise<AIResponse>,
+    options?: AIRequestOptions,
+  ) => {
+    const errors: { provider: AIProviderName; error: unknown }[] = [];
+
+    for (const [i, name] of names.entries()) {
+      const provider = registered.get(name);
+      if (!provider) continue;
+      // Model names are vendor-specific, so only the first provider gets the requested one
+      const providerOptions = i === 0 ? options : { ...options, model: undefined };
+      try {
+        return await call(provider.service, providerOptions);
+      } catch (error) {
+        console.warn(`[AIService] ${name} failed, trying next provider`, error);
+        errors.push({ provider: name, error });
+      }
+    }
+
+    throw new AIServiceUnavailableError(errors);
+  };
+
+  // Streams can only fall through before the first delta; after that the caller has already shown partial text
+  const runStream = (names: AIProviderName[], messages: AIMessage[], options?: AIStreamOptions): AIStream => {
+    const { onDelta, signal, ...requestOptions } = options ?? {};
+
+    return createAIStream(async function* (streamSignal) {
+      const errors: { provider: AIProviderName; error: unknown }[] = [];
+
+      for (const [i, name] of names.entries()) {
+        const provider = registered.get(name);
+        if (!provider) continue;
+
+        const providerOptions = i === 0 ? requestOptions : { ...requestOptions, model: undefined };
+        const stream = provider.service.stream(messages, { ...providerOptions, signal: streamSignal });
+        let receivedDelta = false;
+
+        try {
+          for await (const delta of stream) {
+            receivedDelta = true;
+            yield { delta };
+          }
+          const { usage, toolCalls } = await stream.response;
+          yield { usage, toolCalls };
+          return;
+        } catch (error) {
+          if (receivedDelta || streamSignal.aborted) throw error;
+          console.warn(`[AIService] ${name} failed, trying next provider`, error);
+          errors.push({ provider: name, error });
+        }
+      }
+
+      throw new AIServiceUnavailableError(errors);
+    }, { signal, onDelta });
+  };
+
+  const withFallback = (names?: AIProviderName[]): AIService => {
+    // Providers that can't read images are skipped for messages that include them
+    const order = (messages: AIMessage[]) => {
+      const candidates = names ?? chain;
+      if (!hasImageContent(messages)) return candidates;
+      return candidates.filter((name) => registered.get(name)?.capabilities.includes("vision"));
+    };
+    return {
+      chat: (messages, options) => run(order(messages), (service, opts) => service.chat(messages, opts), options),
+      complete: (prompt, options) => run(order([]), (service, opts) => service.complete(prompt, opts), options),
+      stream: (messages, options) => runStream(order(messages), messages, options),
+    };
+  };
+
+  return {
+    register: (provider) => {
+      registered.set(provider.name, provider);
+    },
+    get: (name) => getProvider(name).service,
+    select: (capability) => {
+      const capable = chain.filter((name) => registered.get(name)?.capabilities.includes(capability));
+      if (capable.length === 0) {
+        throw new Error(`No AI provider supports "${capability}"`);
+      }
+      return withFallback(capable);
+    },
+    setFallbackChain: (next) => {
+      chain = [...next];
+    },
+    getFallbackChain: () => [...chain],
+    withFallback,
+  };
+};
+
+// Default registry; an Anthropic outage falls through to OpenAI, then Grok
+export const aiServiceRegistry = createAIServiceRegistry(
+  [anthropicProvider, openAIProvider, grokProvider],
+  ["anthropic", "openai", "grok"],
+);
+
+/**
+ * Get the default AI service, which tries each provider in the registry's fallback chain
+ */
+export const getAIService = (): AIService => aiServiceRegistry.withFallback();
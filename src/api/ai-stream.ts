@@ -0,0 +1,89 @@
+import { AIResponse, AIStream, AIStreamOptions, AIToolCall, AIUsage } from "../types/ai";
+
+export interface AIStreamEvent {
+  delta?: string;
+  usage?: AIUsage;
+  toolCalls?: AIToolCall[];
+}
+
+/**
+ * Wrap a provider's event stream as an AIStream
+ * The producer starts immediately; deltas are buffered for iteration and passed to `onDelta` as they arrive.
+ * @param produce - Yields text deltas, tool calls and usage, and must stop when the signal aborts
+ * @param options - The caller's abort signal and delta callback
+ */
+export const createAIStream = (
+  produce: (signal: AbortSignal) => AsyncIterable<AIStreamEvent>,
+  options?: AIStreamOptions,
+): AIStream => {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  if (options?.signal?.aborted) {
+    controller.abort();
+  } else {
+    options?.signal?.addEventListener("abort", abort);
+  }
+
+  const queue: string[] = [];
+  let finished = false;
+  let failure: unknown = null;
+  let wake: (() => void) | null = null;
+
+  const notify = () => {
+    wake?.();
+    wake = null;
+  };
+
+  const response = (async (): Promise<AIResponse> => {
+    let content = "";
+    let usage: AIUsage | undefined;
+    let toolCalls: AIToolCall[] | undefined;
+    try {
+      for await (const event of produce(controller.signal)) {
+        if (event.delta) {
+          content += event.delta;
+          queue.push(event.delta);
+          options?.onDelta?.(event.delta);
+          notify();
+        }
+        if (event.usage) {
+          usage = event.usage;
+        }
+        if (event.toolCalls) {
+          toolCalls = event.toolCalls;
+        }
+      }
+      return { content, usage, ...(toolCalls ? { toolCalls } : {}) };
+    } catch (error) {
+      failure = error;
+      throw error;
+    } finally {
+      // A long-lived caller signal would otherwise hold on to every stream it was passed to
+      options?.signal?.removeEventListener("abort", abort);
+      finished = true;
+      notify();
+    }
+  })();
+  // Iterating consumers see the error through the iterator instead
+  response.catch(() => undefined);
+
+  async function* iterate() {
+    while (true) {
+      if (queue.length > 0) {
+        yield queue.shift()!;
+        continue;
+      }
+      if (failure) throw failure;
+      if (finished) return;
+      await new Promise<void>((resolve) => {
+        wake = resolve;
+      });
+    }
+  }
+
+  return {
+    response,
+    abort: () => controller.abort(),
+    [Symbol.asyncIterator]: iterate,
+  };
+};
@@ -0,0 +1,94 @@
+/*
+IMPORTANT NOTICE: DO NOT REMOVE
+./src/api/ai-tools.ts
+Lets the model take actions. Pass tools to runWithTools() and it runs whichever ones the model calls,
+feeds the results back, and repeats until the model answers in plain text.
+*/
+import { AIMessage, AIRequestOptions, AIResponse, AIService, AITool, AIToolCall, AIUsage } from "../types/ai";
+import { getAIService } from "./ai-service";
+
+// Stops a model that keeps calling tools from looping forever
+const DEFAULT_MAX_STEPS = 5;
+
+export interface ToolLoopOptions extends AIRequestOptions {
+  tools: AITool[];
+  maxSteps?: number;
+  service?: AIService;
+  onToolCall?: (call: AIToolCall) => void;
+}
+
+export interface ToolLoopResult {
+  response: AIResponse;
+  // The conversation including every tool call and result, ready to pass back in on the next turn
+  messages: AIMessage[];
+}
+
+const addUsage = (total: AIUsage | undefined, usage: AIUsage | undefined): AIUsage | undefined => {
+  if (!usage) return total;
+  if (!total) return usage;
+  return {
+    promptTokens: total.promptTokens + usage.promptTokens,
+    completionTokens: total.completionTokens + usage.completionTokens,
+    totalTokens: total.totalTokens + usage.totalTokens,
+  };
+};
+
+// Handler failures are reported to the model as error results so it can recover or explain
+const runToolCall = async (call: AIToolCall, tools: AITool[]): Promise<AIMessage> => {
+  const tool = tools.find((t) => t.name === call.name);
+  if (!tool) {
+    return { role: "tool", toolCallId: call.id, content: `Unknown tool "${call.name}"`, isError: true };
+  }
+  if (call.inputError) {
+    return { role: "tool", toolCallId: call.id, content: call.inputError, isError: true };
+  }
+
+  try {
+    const result = await tool.handler(call.input);
+    const content = typeof result === "string" ? result : JSON.stringify(result ?? null);
+    return { role: "tool", toolCallId: call.id, content };
+  } catch (error) {
+    console.error(`Tool "${call.name}" failed:`, error);
+    const message = error instanceof Error ? error.message : String(error);
+    return { role: "tool", toolCallId: call.id, content: message, isError: true };
+  }
+};
+
+/**
+ * Define a tool with a typed input
+ * @param tool - The tool's name, description, JSON schema and handler
+ */
+export const defineTool = <TInput>(tool: AITool<TInput>): AITool<TInput> => tool;
+
+/**
+ * Chat with the model, running any tools it calls until it gives a final answer
+ * @param messages - The conversation so far
+ * @param options - The tools available plus the usual request options
+ * @returns The final response, with usage summed over every step, and the full conversation
+ */
+export const runWithTools = async (messages: AIMessage[], options: ToolLoopOptions): Promise<ToolLoopResult> => {
+  const { maxSteps = DEFAULT_MAX_STEPS, service = getAIService(), onToolCall, ...requestOptions } = options;
+  const conversation = [...messages];
+  let usage: AIUsage | undefined;
+
+  for (let step = 0; step <= maxSteps; step++) {
+    // Out of steps: keep the tools declared, since the history references them, but require an answer
+    const stepOptions = step === maxSteps ? { ...requestOptions, toolChoice: "none" as const } : requestOptions;
+    const response = await service.chat(conversation, stepOptions);
+    usage = addUsage(usage, response.usage);
+
+    if (!response.toolCalls?.length) {
+      conversation.push({ role: "assistant", content: response.content });
+      return { response: { ...response, usage }, messages: conversation };
+    }
+
+    conversation.push({ role: "assistant", content: response.content, toolCalls: response.toolCalls });
+    for (const call of response.toolCalls) {
+      onToolCall?.(call);
+      conversation.push(await runToolCall(call, requestOptions.tools));
+    }
+  }
+
+  // Only reached if a provider ignores toolChoice "none"
+  throw new Error("Tool loop ended without an answer");
+};
@@ -2,11 +2,221 @@
 IMPORTANT NOTICE: DO NOT REMOVE
 ./src/api/chat-service.ts
 If the user wants to use AI to generate text, answer questions, or analyze images you can use the functions defined in this file to communicate with the OpenAI, Anthropic, and Grok APIs.
+App code should prefer the AIService adapters and fallback registry in ./src/api/ai-service.ts, which are built on these functions.
+To let the model call tools, use runWithTools() in ./src/api/ai-tools.ts.
 */
-import { AIMessage, AIRequestOptions, AIResponse } from "../types/ai";
+import OpenAI from "openai";
+import type {
+  ChatCompletionContentPart,
+  ChatCompletionMessageParam,
+  ChatCompletionMessageToolCall,
+} from "openai/resources/chat/completions";
+import type { ContentBlock, ContentBlockParam, MessageParam, Tool } from "@anthropic-ai/sdk/resources/messages";
+import {
+  AIContentPart,
+  AIMessage,
+  AIRequestOptions,
+  AIResponse,
+  AIStream,
+  AIStreamOptions,
+  AIToolCall,
+  AIUsage,
+} from "../types/ai";
 import { getAnthropicClient } from "./anthropic";
 import { getOpenAIClient } from "./openai";
 import { getGrokClient } from "./grok";
+import { createAIStream } from "./ai-stream";
+import { getTextContent } from "./ai-messages";
+import { recordUsage, UsageProvider } from "../usage";
+
+const recordChatUsage = (provider: UsageProvider, model: string, usage: AIUsage, options?: AIRequestOptions) => {
+  recordUsage({
+    kind: "chat",
+    provider,
+    model,
+    feature: options?.feature,
+    inputTokens: usage.promptTokens,
+    outputTokens: usage.completionTokens,
+  });
+};
+
+// About four characters per token; only used when the provider didn't report usage
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+/**
+ * Record what a stream cut short by an abort or error consumed
+ * Providers only report usage at the end of a stream, but the tokens processed before it stopped are still billed,
+ * so whatever wasn't reported is estimated from the text sent and received.
+ */
+const recordPartialChatUsage = (
+  provider: UsageProvider,
+  model: string,
+  messages: AIMessage[],
+  options: AIRequestOptions | undefined,
+  partial: { promptTokens?: number; completionTokens?: number; output: string },
+) => {
+  const prompt = [options?.system ?? "", ...messages.map((message) => getTextContent(message.content))].join("\n");
+  const promptTokens = partial.promptTokens ?? estimateTokens(prompt);
+  const completionTokens = partial.completionTokens ?? estimateTokens(partial.output);
+  const usage = { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+  recordChatUsage(provider, model, usage, options);
+};
+
+const toAnthropicPart = (part: AIContentPart): ContentBlockParam => {
+  if (part.type === "text") {
+    return { type: "text", text: part.text };
+  }
+  return {
+    type: "image",
+    source:
+      part.source.type === "url"
+        ? { type: "url", url: part.source.url }
+        : { type: "base64", media_type: part.source.mediaType, data: part.source.data },
+  };
+};
+
+// Tool arguments arrive as JSON text; a malformed payload is flagged so the model is told instead of the handler run
+const parseToolInput = (json: string | undefined): Pick<AIToolCall, "input" | "inputError"> => {
+  if (!json?.trim()) return { input: {} };
+  try {
+    const parsed: unknown = JSON.parse(json);
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+      return { input: parsed as Record<string, unknown> };
+    }
+    return { input: {}, inputError: "Tool arguments must be a JSON object" };
+  } catch (error) {
+    return { input: {}, inputError: `Tool arguments are not valid JSON: ${(error as Error).message}` };
+  }
+};
+
+const toAnthropicMessage = (msg: AIMessage): MessageParam => {
+  if (msg.role === "tool") {
+    return {
+      role: "user",
+      content: [
+        {
+          type: "tool_result",
+          tool_use_id: msg.toolCallId ?? "",
+          content: getTextContent(msg.content),
+          is_error: msg.isError,
+        },
+      ],
+    };
+  }
+
+  const content = typeof msg.content === "string" ? msg.content : msg.content.map(toAnthropicPart);
+  if (msg.role === "assistant" && msg.toolCalls?.length) {
+    const text = getTextContent(msg.content);
+    return {
+      role: "assistant",
+      content: [
+        ...(text ? [{ type: "text" as const, text }] : []),
+        ...msg.toolCalls.map((call) => ({ type: "tool_use" as const, id: call.id, name: call.name, input: call.input })),
+      ],
+    };
+  }
+
+  return { role: msg.role === "assistant" ? "assistant" : "user", content };
+};
+
+// Anthropic takes instructions through the `system` parameter rather than as messages,
+// and expects every tool result for a turn in a single user message
+const toAnthropicRequest = (messages: AIMessage[], options?: AIRequestOptions) => {
+  const system = [options?.system ?? "", ...messages.filter((msg) => msg.role === "system").map((msg) => msg.content)]
+    .map(getTextContent)
+    .filter(Boolean)
+    .join("\n\n");
+
+  const mapped: MessageParam[] = [];
+  messages.forEach((msg, i) => {
+    if (msg.role === "system") return;
+    const param = toAnthropicMessage(msg);
+    const previous = mapped[mapped.length - 1];
+    if (msg.role === "tool" && messages[i - 1]?.role === "tool" && Array.isArray(previous?.content)) {
+      previous.content.push(...(param.content as ContentBlockParam[]));
+    } else {
+      mapped.push(param);
+    }
+  });
+
+  const tools = options?.tools?.length
+    ? {
+        tools: options.tools.map(
+          (tool): Tool => ({
+            name: tool.name,
+            description: tool.description,
+            input_schema: tool.parameters as Tool.InputSchema,
+          }),
+        ),
+        tool_choice: { type: options.toolChoice === "required" ? ("any" as const) : (options.toolChoice ?? "auto") },
+      }
+    : {};
+
+  return { system: system || undefined, messages: mapped, ...tools };
+};
+
+const fromAnthropicContent = (blocks: ContentBlock[]): Pick<AIResponse, "content" | "toolCalls"> => {
+  const content = blocks.reduce((acc, block) => (block.type === "text" ? acc + block.text : acc), "");
+  const toolCalls = blocks.flatMap((block): AIToolCall[] =>
+    block.type === "tool_use" ? [{ id: block.id, name: block.name, input: block.input as Record<string, unknown> }] : [],
+  );
+  return { content, ...(toolCalls.length ? { toolCalls } : {}) };
+};
+
+const toOpenAIPart = (part: AIContentPart): ChatCompletionContentPart => {
+  if (part.type === "text") {
+    return { type: "text", text: part.text };
+  }
+  const url =
+    part.source.type === "url" ? part.source.url : `data:${part.source.mediaType};base64,${part.source.data}`;
+  return { type: "image_url", image_url: { url } };
+};
+
+// OpenAI-compatible APIs only accept images from the user, so other roles are sent as text
+const toOpenAIMessages = (messages: AIMessage[], options?: AIRequestOptions): ChatCompletionMessageParam[] => {
+  const mapped = messages.map((msg): ChatCompletionMessageParam => {
+    if (msg.role === "user") {
+      return { role: "user", content: typeof msg.content === "string" ? msg.content : msg.content.map(toOpenAIPart) };
+    }
+    if (msg.role === "tool") {
+      return { role: "tool", tool_call_id: msg.toolCallId ?? "", content: getTextContent(msg.content) };
+    }
+    if (msg.role === "assistant" && msg.toolCalls?.length) {
+      return {
+        role: "assistant",
+        content: getTextContent(msg.content) || null,
+        tool_calls: msg.toolCalls.map((call) => ({
+          id: call.id,
+          type: "function",
+          function: { name: call.name, arguments: JSON.stringify(call.input) },
+        })),
+      };
+    }
+    return { role: msg.role, content: getTextContent(msg.content) };
+  });
+
+  return options?.system ? [{ role: "system", content: options.system }, ...mapped] : mapped;
+};
+
+const toOpenAITools = (options?: AIRequestOptions) =>
+  options?.tools?.length
+    ? {
+        tools: options.tools.map((tool) => ({
+          type: "function" as const,
+          function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+        })),
+        tool_choice: options.toolChoice ?? "auto",
+      }
+    : {};
+
+const fromOpenAIToolCalls = (toolCalls: ChatCompletionMessageToolCall[] | undefined) =>
+  toolCalls?.length
+    ? {
+        toolCalls: toolCalls.map(
+          (call): AIToolCall => ({ id: call.id, name: call.function.name, ...parseToolInput(call.function.arguments) }),
+        ),
+      }
+    : {};
 
 /**
  * Get a text response from Anthropic
@@ -24,30 +234,19 @@ export const getAnthropicTextResponse = async (
 
     const response = await client.messages.create({
       model: options?.model || defaultModel,
-      messages: messages.map((msg) => ({
-        role: msg.role === "assistant" ? "assistant" : "user",
-        content: msg.content,
-      })),
+      ...toAnthropicRequest(messages, options),
       max_tokens: options?.maxTokens || 2048,
-      temperature: options?.temperature || 0.7,
+      temperature: options?.temperature ?? 0.7,
     });
 
-    // Handle content blocks from the response
-    const content = response.content.reduce((acc, block) => {
-      if ("text" in block) {
-        return acc + block.text;
-      }
-      return acc;
-    }, "");
-
-    return {
-      content,
-      usage: {
-        promptTokens: response.usage?.input_tokens || 0,
-        completionTokens: response.usage?.output_tokens || 0,
-        totalTokens: (response.usage?.input_tokens || 0) + (response.usage?.output_tokens || 0),
-      },
+    const usage = {
+      promptTokens: response.usage?.input_tokens || 0,
+      completionTokens: response.usage?.output_tokens || 0,
+      totalTokens: (response.usage?.input_tokens || 0) + (response.usage?.output_tokens || 0),
     };
+    recordChatUsage("anthropic", options?.model || defaultModel, usage, options);
+
+    return { ...fromAnthropicContent(response.content), usage };
   } catch (error) {
     console.error("Anthropic API Error:", error);
     throw error;
@@ -76,18 +275,23 @@ export const getOpenAITextResponse = async (messages: AIMessage[], options?: AIR
 
     const response = await client.chat.completions.create({
       model: options?.model || defaultModel,
-      messages: messages,
+      messages: toOpenAIMessages(messages, options),
+      ...toOpenAITools(options),
       temperature: options?.temperature ?? 0.7,
       max_tokens: options?.maxTokens || 2048,
     });
 
+    const usage = {
+      promptTokens: response.usage?.prompt_tokens || 0,
+      completionTokens: response.usage?.completion_tokens || 0,
+      totalTokens: response.usage?.total_tokens || 0,
+    };
+    recordChatUsage("openai", options?.model || defaultModel, usage, options);
+
     return {
       content: response.choices[0]?.message?.content || "",
-      usage: {
-        promptTokens: response.usage?.prompt_tokens || 0,
-        completionTokens: response.usage?.completion_tokens || 0,
-        totalTokens: response.usage?.total_tokens || 0,
-      },
+      ...fromOpenAIToolCalls(response.choices[0]?.message?.tool_calls),
+      usage,
     };
   } catch (error) {
     console.error("OpenAI API Error:", error);
@@ -117,18 +321,23 @@ export const getGrokTextResponse = async (messages: AIMessage[], options?: AIReq
 
     const response = await client.chat.completions.create({
       model: options?.model || defaultModel,
-      messages: messages,
+      messages: toOpenAIMessages(messages, options),
+      ...toOpenAITools(options),
       temperature: options?.temperature ?? 0.7,
       max_tokens: options?.maxTokens || 2048,
     });
 
+    const usage = {
+      promptTokens: response.usage?.prompt_tokens || 0,
+      completionTokens: response.usage?.completion_tokens || 0,
+      totalTokens: response.usage?.total_tokens || 0,
+    };
+    recordChatUsage("grok", options?.model || defaultModel, usage, options);
+
     return {
       content: response.choices[0]?.message?.content || "",
-      usage: {
-        promptTokens: response.usage?.prompt_tokens || 0,
-        completionTokens: response.usage?.completion_tokens || 0,
-        totalTokens: response.usage?.total_tokens || 0,
-      },
+      ...fromOpenAIToolCalls(response.choices[0]?.message?.tool_calls),
+      usage,
     };
   } catch (error) {
     console.error("Grok API Error:", error);
@@ -144,3 +353,179 @@ export const getGrokTextResponse = async (messages: AIMessage[], options?: AIReq
 export const getGrokChatResponse = async (prompt: string): Promise<AIResponse> => {
   return await getGrokTextResponse([{ role: "user", content: prompt }]);
 };
+
+/**
+ * Stream a text response from Anthropic
+ * @param messages - The messages to send to the AI
+ * @param options - The options for the request, plus an abort signal and delta callback
+ * @returns A stream of text deltas whose `response` resolves with the full text, tool calls and usage
+ */
+export const streamAnthropicTextResponse = (messages: AIMessage[], options?: AIStreamOptions): AIStream => {
+  return createAIStream(async function* (signal) {
+    const defaultModel = "claude-3-5-sonnet-20240620";
+    let promptTokens: number | undefined;
+    let completionTokens: number | undefined;
+    // Text and tool input received so far, for estimating usage if the stream is cut short
+    let output = "";
+    // Nothing is billed for a request that failed before the stream opened
+    let streamStarted = false;
+    let usageRecorded = false;
+
+    try {
+      const client = getAnthropicClient();
+
+      const stream = await client.messages.create(
+        {
+          model: options?.model || defaultModel,
+          ...toAnthropicRequest(messages, options),
+          max_tokens: options?.maxTokens || 2048,
+          temperature: options?.temperature ?? 0.7,
+          stream: true,
+        },
+        { signal },
+      );
+
+      streamStarted = true;
+      // Tool input arrives as JSON fragments, keyed by content block index
+      const toolBlocks = new Map<number, { id: string; name: string; json: string }>();
+
+      for await (const event of stream) {
+        if (event.type === "message_start") {
+          promptTokens = event.message.usage?.input_tokens;
+        } else if (event.type === "content_block_start" && event.content_block.type === "tool_use") {
+          toolBlocks.set(event.index, { id: event.content_block.id, name: event.content_block.name, json: "" });
+        } else if (event.type === "content_block_delta" && event.delta.type === "text_delta") {
+          output += event.delta.text;
+          yield { delta: event.delta.text };
+        } else if (event.type === "content_block_delta" && event.delta.type === "input_json_delta") {
+          output += event.delta.partial_json;
+          const block = toolBlocks.get(event.index);
+          if (block) block.json += event.delta.partial_json;
+        } else if (event.type === "message_delta") {
+          completionTokens = event.usage?.output_tokens;
+        }
+      }
+
+      if (toolBlocks.size > 0) {
+        yield {
+          toolCalls: [...toolBlocks.values()].map(({ id, name, json }) => ({ id, name, ...parseToolInput(json) })),
+        };
+      }
+      const usage = {
+        promptTokens: promptTokens ?? 0,
+        completionTokens: completionTokens ?? 0,
+        totalTokens: (promptTokens ?? 0) + (completionTokens ?? 0),
+      };
+      recordChatUsage("anthropic", options?.model || defaultModel, usage, options);
+      usageRecorded = true;
+      yield { usage };
+    } catch (error) {
+      if (streamStarted && !usageRecorded) {
+        recordPartialChatUsage("anthropic", options?.model || defaultModel, messages, options, {
+          promptTokens,
+          completionTokens,
+          output,
+        });
+      }
+      console.error("Anthropic API Error:", error);
+      throw error;
+    }
+  }, options);
+};
+
+// OpenAI and Grok share the chat completions streaming format
+const streamOpenAICompatibleResponse = (
+  getClient: () => OpenAI,
+  provider: UsageProvider,
+  defaultModel: string,
+  label: string,
+  messages: AIMessage[],
+  options?: AIStreamOptions,
+): AIStream => {
+  return createAIStream(async function* (signal) {
+    // Text and tool input received so far, for estimating usage if the stream is cut short
+    let output = "";
+    // Nothing is billed for a request that failed before the stream opened
+    let streamStarted = false;
+    let usageRecorded = false;
+
+    try {
+      const client = getClient();
+
+      const stream = await client.chat.completions.create(
+        {
+          model: options?.model || defaultModel,
+          messages: toOpenAIMessages(messages, options),
+          ...toOpenAITools(options),
+          temperature: options?.temperature ?? 0.7,
+          max_tokens: options?.maxTokens || 2048,
+          stream: true,
+          stream_options: { include_usage: true },
+        },
+        { signal },
+      );
+
+      streamStarted = true;
+      // Tool calls arrive in fragments, keyed by their index in the message
+      const toolCalls = new Map<number, { id: string; name: string; json: string }>();
+
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          output += delta;
+          yield { delta };
+        }
+        for (const fragment of chunk.choices[0]?.delta?.tool_calls ?? []) {
+          output += fragment.function?.arguments ?? "";
+          const call = toolCalls.get(fragment.index) ?? { id: "", name: "", json: "" };
+          call.id = fragment.id || call.id;
+          call.name += fragment.function?.name ?? "";
+          call.json += fragment.function?.arguments ?? "";
+          toolCalls.set(fragment.index, call);
+        }
+        if (chunk.usage) {
+          const usage = {
+            promptTokens: chunk.usage.prompt_tokens || 0,
+            completionTokens: chunk.usage.completion_tokens || 0,
+            totalTokens: chunk.usage.total_tokens || 0,
+          };
+          recordChatUsage(provider, options?.model || defaultModel, usage, options);
+          usageRecorded = true;
+          yield { usage };
+        }
+      }
+
+      if (toolCalls.size > 0) {
+        yield {
+          toolCalls: [...toolCalls.values()].map(({ id, name, json }) => ({ id, name, ...parseToolInput(json) })),
+        };
+      }
+    } catch (error) {
+      if (streamStarted && !usageRecorded) {
+        recordPartialChatUsage(provider, options?.model || defaultModel, messages, options, { output });
+      }
+      console.error(`${label} API Error:`, error);
+      throw error;
+    }
+  }, options);
+};
+
+/**
+ * Stream a text response from OpenAI
+ * @param messages - The messages to send to the AI
+ * @param options - The options for the request, plus an abort signal and delta callback
+ * @returns A stream of text deltas whose `response` resolves with the full text, tool calls and usage
+ */
+export const streamOpenAITextResponse = (messages: AIMessage[], options?: AIStreamOptions): AIStream => {
+  return streamOpenAICompatibleResponse(getOpenAIClient, "openai", "gpt-4o", "OpenAI", messages, options);
+};
+
+/**
+ * Stream a text response from Grok
+ * @param messages - The messages to send to the AI
+ * @param options - The options for the request, plus an abort signal and delta callback
+ * @returns A stream of text deltas whose `response` resolves with the full text, tool calls and usage
+ */
+export const streamGrokTextResponse = (messages: AIMessage[], options?: AIStreamOptions): AIStream => {
+  return streamOpenAICompatibleResponse(getGrokClient, "grok", "grok-3-beta", "Grok", messages, options);
+};
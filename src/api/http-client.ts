@@ -0,0 +1,184 @@
+/*
+IMPORTANT NOTICE: DO NOT REMOVE
+./src/api/http-client.ts
+Shared HTTP client. Use request() or requestJson() instead of bare fetch so every call gets a timeout,
+retries with backoff on rate limits and server errors, and can be cancelled with an AbortSignal.
+*/
+
+export interface RequestOptions extends Omit<RequestInit, "signal"> {
+  // Per attempt, so a retried call can take longer than this in total
+  timeoutMs?: number;
+  // Extra attempts after the first, for 429s, 5xx responses, timeouts and network failures
+  retries?: number;
+  // First backoff delay; doubles with each retry
+  retryDelayMs?: number;
+  // Longest we'll wait before a retry, including a server's Retry-After; longer waits fail instead
+  maxRetryDelayMs?: number;
+  signal?: AbortSignal;
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 500;
+const DEFAULT_MAX_RETRY_DELAY_MS = 30_000;
+
+export class HttpRequestError extends Error {
+  readonly url: string;
+
+  constructor(message: string, url: string) {
+    super(message);
+    this.name = "HttpRequestError";
+    this.url = url;
+  }
+}
+
+export class RequestTimeoutError extends HttpRequestError {
+  readonly timeoutMs: number;
+
+  constructor(url: string, timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs}ms`, url);
+    this.name = "RequestTimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+export class RequestAbortedError extends HttpRequestError {
+  constructor(url: string) {
+    super("Request was aborted", url);
+    this.name = "RequestAbortedError";
+  }
+}
+
+export class NetworkError extends HttpRequestError {
+  readonly cause: unknown;
+
+  constructor(url: string, cause: unknown) {
+    super(`Network request failed: ${String(cause)}`, url);
+    this.name = "NetworkError";
+    this.cause = cause;
+  }
+}
+
+export class HttpStatusError extends HttpRequestError {
+  readonly status: number;
+  readonly body: string;
+
+  constructor(url: string, status: number, body: string) {
+    super(`Request failed with status ${status}${body ? `: ${body.slice(0, 500)}` : ""}`, url);
+    this.name = "HttpStatusError";
+    this.status = status;
+    this.body = body;
+  }
+}
+
+export const isAbortError = (error: unknown): error is RequestAbortedError => error instanceof RequestAbortedError;
+
+const isRetryableStatus = (status: number) => status === 429 || status >= 500;
+
+// Retry-After is either a number of seconds or an HTTP date
+const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const wait = (ms: number, url: string, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RequestAbortedError(url));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RequestAbortedError(url));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+// One attempt, aborted by either the caller's signal or the timeout
+const attempt = async (url: string, init: RequestInit, timeoutMs: number, signal?: AbortSignal) => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (signal?.aborted) throw new RequestAbortedError(url);
+    if (timedOut) throw new RequestTimeoutError(url, timeoutMs);
+    throw new NetworkError(url, error);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
+};
+
+/**
+ * Make an HTTP request with a timeout, retries and cancellation
+ * @param url - The URL to request
+ * @param options - fetch options plus timeout, retry and abort settings
+ * @returns The successful response
+ * @throws HttpStatusError for a non-2xx response, RequestTimeoutError, NetworkError, or RequestAbortedError
+ */
+export const request = async (url: string, options: RequestOptions = {}): Promise<Response> => {
+  const {
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    retries = DEFAULT_RETRIES,
+    retryDelayMs = DEFAULT_RETRY_DELAY_MS,
+    maxRetryDelayMs = DEFAULT_MAX_RETRY_DELAY_MS,
+    signal,
+    ...init
+  } = options;
+
+  for (let attemptIndex = 0; ; attemptIndex++) {
+    if (signal?.aborted) throw new RequestAbortedError(url);
+
+    let error: HttpRequestError;
+    let retryAfterMs: number | undefined;
+
+    try {
+      const response = await attempt(url, init, timeoutMs, signal);
+      if (response.ok) return response;
+
+      const body = await response.text().catch(() => "");
+      error = new HttpStatusError(url, response.status, body);
+      if (!isRetryableStatus(response.status)) throw error;
+      retryAfterMs = parseRetryAfter(response.headers.get("Retry-After"));
+    } catch (caught) {
+      if (caught instanceof HttpStatusError || caught instanceof RequestAbortedError) throw caught;
+      error = caught as HttpRequestError;
+    }
+
+    if (attemptIndex >= retries) throw error;
+
+    // Full jitter keeps many clients from retrying in lockstep
+    const backoffMs = Math.random() * retryDelayMs * 2 ** attemptIndex;
+    const delayMs = retryAfterMs ?? backoffMs;
+    if (delayMs > maxRetryDelayMs) throw error;
+
+    console.warn(`[HTTP] ${error.message}; retrying in ${Math.round(delayMs)}ms`, url);
+    await wait(delayMs, url, signal);
+  }
+};
+
+/**
+ * Make an HTTP request and parse the JSON response
+ * @param url - The URL to request
+ * @param options - fetch options plus timeout, retry and abort settings
+ * @returns The parsed response body
+ */
+export const requestJson = async <T>(url: string, options?: RequestOptions): Promise<T> => {
+  const response = await request(url, options);
+  return (await response.json()) as T;
+};
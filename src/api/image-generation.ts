@@ -6,14 +6,19 @@ This endpoint uses openai's latest image generation API, AKA gpt4o, AKA gpt-imag
 Does not support video and audio generation.
 */
 
+import { recordUsage, UsageFeature } from "../usage";
+import { request } from "./http-client";
+
 // API endpoint configuration
 const baseUrl = "https://api.vibecodeapp.com";
 const endpoint = "/api/storage/generate-image";
+// High quality images can take well over a minute
+const GENERATION_TIMEOUT_MS = 180_000;
 
 /**
  * Generate an image using the custom API endpoint
  * @param prompt The text prompt to generate an image from
- * @param options Optional parameters for image generation
+ * @param options Optional parameters for image generation, the feature to record usage under, and an abort signal
  * @returns URL of the generated image, usable to render in the app directly.
  */
 export async function generateImage(
@@ -23,38 +28,41 @@ export async function generateImage(
     quality?: "low" | "medium" | "high" | "auto";
     format?: "png" | "jpeg" | "webp";
     background?: undefined | "transparent";
+    feature?: UsageFeature;
+    signal?: AbortSignal;
   },
 ): Promise<string> {
   try {
+    const { feature, signal, ...imageOptions } = options ?? {};
+
     // Create request body
     const requestBody = {
       projectId: process.env.EXPO_PUBLIC_VIBECODE_PROJECT_ID,
       prompt,
       options: {
-        ...options,
+        ...imageOptions,
       },
     };
 
     // Make API request
-    const response = await fetch(`${baseUrl}${endpoint}`, {
+    const response = await request(`${baseUrl}${endpoint}`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
       },
       body: JSON.stringify(requestBody),
+      timeoutMs: GENERATION_TIMEOUT_MS,
+      // Each attempt is billed, so only retry once
+      retries: 1,
+      signal,
     });
 
-    if (!response.ok) {
-      const errorData = await response.json();
-      console.error("[AssetGenerationService] Error response:", errorData);
-      throw new Error(`Image generation API error: ${response.status} ${JSON.stringify(errorData)}`);
-    }
-
     const result = await response.json();
     console.log("[AssetGenerationService] Image generated successfully");
 
     // Return the image data from the response
     if (result.success && result.data) {
+      recordUsage({ kind: "image", provider: "openai", model: "gpt-image-1", feature, images: 1 });
       return result.data.imageUrl as string;
     } else {
       console.error("[AssetGenerationService] Invalid response format:", result);
@@ -0,0 +1,71 @@
+/*
+IMPORTANT NOTICE: DO NOT REMOVE
+./src/api/name-extraction.ts
+Pulls the user's name out of what they said when Tava asked for it. Common phrasings are parsed locally;
+anything else is handed to the model, and the local parse is used again if the model can't be reached.
+*/
+import { getAIService } from "./ai-service";
+import { getLocale, LOCALES } from "../i18n";
+import { parseName, PersonName } from "../names";
+
+// Transcripts longer than this are a sentence rather than a name
+const MAX_NAME_WORDS = 4;
+
+// "My name is Jane Doe", "Ich heiße Jane", "Je m'appelle Jane", "Me llamo Jane"...
+const NAME_INTRODUCTIONS = [
+  /\b(?:my name is|my name's|i am|i'm|call me|it's|it is|this is)\s+(.+)$/i,
+  /\b(?:mein name ist|ich heiße|ich heisse|ich bin)\s+(.+)$/i,
+  /\b(?:je m'appelle|je m’appelle|mon nom est|je suis|c'est)\s+(.+)$/i,
+  /\b(?:me llamo|mi nombre es|soy)\s+(.+)$/i,
+];
+
+const toExtractedName = (raw: string): PersonName | null => {
+  const name = parseName(raw);
+  if (!name || name.fullName.split(" ").length > MAX_NAME_WORDS) return null;
+  return name;
+};
+
+const trimTranscript = (transcript: string) => transcript.trim().replace(/[.!?]+$/, "");
+
+/**
+ * Parse a name from a "my name is ..." style introduction without calling a model
+ * @param transcript - What the user said
+ * @returns The name, or null if the transcript isn't a recognised introduction
+ */
+export const parseSpokenName = (transcript: string): PersonName | null => {
+  const text = trimTranscript(transcript);
+  for (const pattern of NAME_INTRODUCTIONS) {
+    const match = text.match(pattern);
+    if (match) return toExtractedName(match[1]);
+  }
+  return null;
+};
+
+/**
+ * Extract the user's name from what they said
+ * @param transcript - What the user said when asked for their name
+ * @returns The name, or null if none could be found
+ */
+export const extractName = async (transcript: string): Promise<PersonName | null> => {
+  const parsed = parseSpokenName(transcript);
+  if (parsed) return parsed;
+
+  try {
+    const response = await getAIService().chat([{ role: "user", content: transcript }], {
+      system: [
+        "The user was asked for their name and answered with the transcript below.",
+        `The transcript is most likely in ${LOCALES[getLocale()].englishName}.`,
+        "Reply with only the name they gave, first name first, correctly capitalized.",
+        "If they didn't give a name, reply with nothing at all.",
+      ].join("\n"),
+      temperature: 0,
+      maxTokens: 30,
+      feature: "nameCapture",
+    });
+    return toExtractedName(response.content.trim());
+  } catch (error) {
+    console.warn("[name-extraction] Model extraction failed:", error);
+    // Most people just say their name
+    return toExtractedName(trimTranscript(transcript));
+  }
+};
@@ -0,0 +1,364 @@
+/*
+IMPORTANT NOTICE: DO NOT REMOVE
+./src/api/text-to-speech.ts
+Shared text-to-speech service. Every spoken line in the app (Tava's narration and the avatar greeting) goes through this file,
+so voices, voice settings and playback behaviour only need to be changed in one place.
+*/
+import { Audio, AVPlaybackStatus } from "expo-av";
+import { SpeechCache, speechCache } from "./tts-cache";
+import { recordUsage, UsageFeature } from "../usage";
+import { HttpStatusError, isAbortError, request, RequestAbortedError } from "./http-client";
+import { AppLocale, getLocale } from "../i18n";
+
+export interface VoiceSettings {
+  stability: number;
+  similarityBoost: number;
+  style: number;
+  useSpeakerBoost: boolean;
+}
+
+export interface VoicePreset {
+  voiceId: string;
+  modelId: string;
+  settings: VoiceSettings;
+}
+
+const DEFAULT_MODEL_ID = "eleven_flash_v2_5";
+// Slower than flash but much better pronunciation and prosody outside English
+const MULTILINGUAL_MODEL_ID = "eleven_multilingual_v2";
+
+const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  stability: 0.7,
+  similarityBoost: 0.5,
+  style: 0.0,
+  useSpeakerBoost: false,
+};
+
+/**
+ * Named voices used across the app
+ * - tava: Aria, a neutral, professional voice similar to Siri
+ * - avatarMale: Chris, masculine and professional
+ * - avatarFemale: Rachel, feminine and professional
+ */
+export const VOICE_PRESETS = {
+  tava: { voiceId: "9BWtsMINqrJLrRacOk9x", modelId: DEFAULT_MODEL_ID, settings: DEFAULT_VOICE_SETTINGS },
+  avatarMale: { voiceId: "iP95p4xoKVk53GoZ742B", modelId: DEFAULT_MODEL_ID, settings: DEFAULT_VOICE_SETTINGS },
+  avatarFemale: { voiceId: "21m00Tcm4TlvDq8ikWAM", modelId: DEFAULT_MODEL_ID, settings: DEFAULT_VOICE_SETTINGS },
+} satisfies Record<string, VoicePreset>;
+
+export type VoicePresetName = keyof typeof VOICE_PRESETS;
+
+const multilingual = (preset: VoicePreset): VoicePreset => ({ ...preset, modelId: MULTILINGUAL_MODEL_ID });
+
+const MULTILINGUAL_VOICE_PRESETS: Record<VoicePresetName, VoicePreset> = {
+  tava: multilingual(VOICE_PRESETS.tava),
+  avatarMale: multilingual(VOICE_PRESETS.avatarMale),
+  avatarFemale: multilingual(VOICE_PRESETS.avatarFemale),
+};
+
+/**
+ * Voice presets by locale, used in place of VOICE_PRESETS when the app is not in English
+ * The same voices speak every language; only the model changes.
+ */
+export const LOCALE_VOICE_PRESETS: Partial<Record<AppLocale, Record<VoicePresetName, VoicePreset>>> = {
+  de: MULTILINGUAL_VOICE_PRESETS,
+  fr: MULTILINGUAL_VOICE_PRESETS,
+  es: MULTILINGUAL_VOICE_PRESETS,
+};
+
+export type TextToSpeechErrorCode = "missing_api_key" | "request_failed" | "playback_failed";
+
+export class TextToSpeechError extends Error {
+  readonly code: TextToSpeechErrorCode;
+  readonly status?: number;
+
+  constructor(code: TextToSpeechErrorCode, message: string, status?: number) {
+    super(message);
+    this.name = "TextToSpeechError";
+    this.code = code;
+    this.status = status;
+  }
+}
+
+/**
+ * Character-level timing for a synthesized clip
+ * Arrays are parallel: characters[i] is spoken from startTimesMs[i] to endTimesMs[i].
+ */
+export interface SpeechAlignment {
+  characters: string[];
+  startTimesMs: number[];
+  endTimesMs: number[];
+}
+
+export interface SynthesizedSpeech {
+  text: string;
+  voice: VoicePreset;
+  fileUri: string;
+  alignment?: SpeechAlignment;
+}
+
+export interface PlaybackCallbacks {
+  onDurationReady?: (durationMs: number, alignment?: SpeechAlignment) => void;
+  // Playback position in the clip, reported every POSITION_UPDATE_INTERVAL_MS while playing
+  onPositionChange?: (positionMs: number) => void;
+  onFinish?: () => void;
+  // The clip was stopped, or replaced by another, before it finished
+  onInterrupt?: () => void;
+}
+
+export interface TextToSpeechProvider {
+  synthesize(text: string, voice: VoicePreset): Promise<SynthesizedSpeech>;
+  prefetch(text: string, voice: VoicePreset): Promise<void>;
+  play(speech: SynthesizedSpeech, callbacks?: PlaybackCallbacks): Promise<void>;
+  pause(): Promise<void>;
+  resume(): Promise<void>;
+  // Applies to the playing clip and every later one; pitch is preserved
+  setRate(rate: number): Promise<void>;
+  stop(): Promise<void>;
+}
+
+export interface ElevenLabsProviderOptions {
+  // Where synthesized clips are stored and looked up
+  cache?: SpeechCache;
+  // What synthesized characters are recorded under in the usage ledger; cache hits are free
+  feature?: UsageFeature;
+  // Cancels requests still in flight, e.g. when the screen using the provider unmounts
+  // A getter is read on every call, for owners whose signal is replaced when they remount
+  signal?: AbortSignal | (() => AbortSignal | undefined);
+}
+
+// Flash models usually answer in well under a second; anything near this is stuck
+const SYNTHESIS_TIMEOUT_MS = 15_000;
+
+// Often enough for subtitles and lip-sync to follow the audio without visible lag
+const POSITION_UPDATE_INTERVAL_MS = 50;
+
+interface ElevenLabsTimestampsResponse {
+  audio_base64: string;
+  alignment?: {
+    characters: string[];
+    character_start_times_seconds: number[];
+    character_end_times_seconds: number[];
+  } | null;
+}
+
+/**
+ * Turn a preset name into the preset for the current language
+ * @param voice - A voice preset, returned as is, or the name of one
+ * @param locale - Defaults to the current locale
+ */
+export const resolveVoice = (voice: VoicePreset | VoicePresetName, locale: AppLocale = getLocale()): VoicePreset => {
+  if (typeof voice !== "string") return voice;
+  return LOCALE_VOICE_PRESETS[locale]?.[voice] ?? VOICE_PRESETS[voice];
+};
+
+// Requests in flight, shared by all providers so a prefetch and a later play of the same clip only hit the API once
+// They run without any caller's signal, so one screen unmounting doesn't cancel the clip for the others
+const pendingSyntheses = new Map<string, Promise<SynthesizedSpeech>>();
+
+const getSynthesisUrl = (voice: VoicePreset) =>
+  // The with-timestamps variant returns base64 audio plus per-character timing for subtitles
+  `https://api.elevenlabs.io/v1/text-to-speech/${voice.voiceId}/with-timestamps?output_format=mp3_44100_128`;
+
+// Stop waiting for a shared request when this caller's signal fires; the request itself carries on
+const untilAborted = <T>(promise: Promise<T>, url: string, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(new RequestAbortedError(url));
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new RequestAbortedError(url));
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+};
+
+/**
+ * Create a text-to-speech provider backed by the ElevenLabs API
+ * Each provider owns at most one playing sound; starting a new clip stops the previous one.
+ * @param options - Cache, usage feature and abort signal for the provider's requests
+ * @returns A provider that synthesizes to a cached mp3 and plays it with expo-av
+ */
+export const createElevenLabsProvider = ({
+  cache = speechCache,
+  feature = "narration",
+  signal,
+}: ElevenLabsProviderOptions = {}): TextToSpeechProvider => {
+  let currentSound: Audio.Sound | null = null;
+  let currentCallbacks: PlaybackCallbacks | undefined;
+  // Keeps the loaded clip in the cache until it's released
+  let releaseCachedClip: (() => void) | undefined;
+  let rate = 1;
+  // Bumped on every stop, so a clip that finishes loading after it was stopped or replaced knows not to play
+  let generation = 0;
+  const getSignal = () => (typeof signal === "function" ? signal() : signal);
+
+  const releaseCurrent = async () => {
+    const sound = currentSound;
+    const callbacks = currentCallbacks;
+    generation++;
+    currentSound = null;
+    currentCallbacks = undefined;
+    releaseCachedClip?.();
+    releaseCachedClip = undefined;
+
+    if (sound) {
+      sound.setOnPlaybackStatusUpdate(null);
+      await sound.unloadAsync().catch(() => undefined);
+      callbacks?.onInterrupt?.();
+    }
+  };
+
+  const fetchAudio = async (text: string, voice: VoicePreset): Promise<SynthesizedSpeech> => {
+    const apiKey = process.env.EXPO_PUBLIC_VIBECODE_ELEVENLABS_API_KEY;
+    if (!apiKey) {
+      throw new TextToSpeechError("missing_api_key", "ElevenLabs API key not found in environment variables");
+    }
+
+    const response = await request(getSynthesisUrl(voice), {
+      method: "POST",
+      timeoutMs: SYNTHESIS_TIMEOUT_MS,
+      // Every attempt is billed, and a timed-out attempt may still have been synthesized, so don't retry
+      retries: 0,
+      headers: {
+        "xi-api-key": apiKey,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        text,
+        model_id: voice.modelId,
+        voice_settings: {
+          stability: voice.settings.stability,
+          similarity_boost: voice.settings.similarityBoost,
+          style: voice.settings.style,
+          use_speaker_boost: voice.settings.useSpeakerBoost,
+        },
+      }),
+    }).catch((error) => {
+      if (isAbortError(error)) throw error;
+      const status = error instanceof HttpStatusError ? error.status : undefined;
+      throw new TextToSpeechError("request_failed", `API request failed: ${error.message}`, status);
+    });
+
+    const result = (await response.json()) as ElevenLabsTimestampsResponse;
+    recordUsage({ kind: "tts", provider: "elevenlabs", model: voice.modelId, feature, characters: text.length });
+    const alignment: SpeechAlignment | undefined = result.alignment
+      ? {
+          characters: result.alignment.characters,
+          startTimesMs: result.alignment.character_start_times_seconds.map((seconds) => seconds * 1000),
+          endTimesMs: result.alignment.character_end_times_seconds.map((seconds) => seconds * 1000),
+        }
+      : undefined;
+
+    const fileUri = await cache.put(text, voice, result.audio_base64, alignment);
+    return { text, voice, fileUri, alignment };
+  };
+
+  const synthesize = async (text: string, voice: VoicePreset): Promise<SynthesizedSpeech> => {
+    const cached = await cache.get(text, voice);
+    if (cached) {
+      return { text, voice, ...cached };
+    }
+
+    const requestKey = JSON.stringify([voice, text]);
+    let pending = pendingSyntheses.get(requestKey);
+    if (!pending) {
+      pending = fetchAudio(text, voice).finally(() => pendingSyntheses.delete(requestKey));
+      pendingSyntheses.set(requestKey, pending);
+    }
+
+    return untilAborted(pending, getSynthesisUrl(voice), getSignal());
+  };
+
+  const prefetch = async (text: string, voice: VoicePreset) => {
+    await synthesize(text, voice);
+  };
+
+  const play = async (speech: SynthesizedSpeech, callbacks?: PlaybackCallbacks) => {
+    await releaseCurrent();
+    const playGeneration = generation;
+    releaseCachedClip = cache.retain(speech.fileUri);
+
+    try {
+      const { sound } = await Audio.Sound.createAsync(
+        { uri: speech.fileUri },
+        { shouldPlay: true, rate, shouldCorrectPitch: true, progressUpdateIntervalMillis: POSITION_UPDATE_INTERVAL_MS },
+      );
+      if (generation !== playGeneration) {
+        await sound.unloadAsync().catch(() => undefined);
+        callbacks?.onInterrupt?.();
+        return;
+      }
+      currentSound = sound;
+      currentCallbacks = callbacks;
+
+      const status = await sound.getStatusAsync();
+      if (status.isLoaded && status.durationMillis) {
+        callbacks?.onDurationReady?.(status.durationMillis, speech.alignment);
+      }
+
+      sound.setOnPlaybackStatusUpdate((playbackStatus: AVPlaybackStatus) => {
+        if (!playbackStatus.isLoaded) return;
+        callbacks?.onPositionChange?.(playbackStatus.positionMillis);
+        if (playbackStatus.didJustFinish) {
+          // Cleared first so releasing the finished clip isn't reported as an interruption
+          currentCallbacks = undefined;
+          callbacks?.onFinish?.();
+          releaseCurrent();
+        }
+      });
+    } catch (error) {
+      if (generation !== playGeneration) {
+        callbacks?.onInterrupt?.();
+        return;
+      }
+      await releaseCurrent();
+      throw new TextToSpeechError("playback_failed", `Could not play audio: ${String(error)}`);
+    }
+  };
+
+  const pause = async () => {
+    await currentSound?.pauseAsync().catch(() => undefined);
+  };
+
+  const resume = async () => {
+    await currentSound?.playAsync().catch(() => undefined);
+  };
+
+  const setRate = async (nextRate: number) => {
+    rate = nextRate;
+    await currentSound?.setRateAsync(nextRate, true).catch(() => undefined);
+  };
+
+  return { synthesize, prefetch, play, pause, resume, setRate, stop: releaseCurrent };
+};
+
+/**
+ * Synthesize and play a line of speech, resolving when playback finishes or is stopped
+ * Errors are logged and swallowed so narration never blocks the onboarding flow; cancelled requests are silent.
+ * @param provider - The provider to speak with
+ * @param text - The text to speak
+ * @param voice - A voice preset or the name of one in VOICE_PRESETS
+ * @param callbacks - Clip length and timing once the audio is loaded, and the position as it plays
+ */
+export const speakWithProvider = async (
+  provider: TextToSpeechProvider,
+  text: string,
+  voice: VoicePreset | VoicePresetName,
+  callbacks?: Pick<PlaybackCallbacks, "onDurationReady" | "onPositionChange">,
+): Promise<void> => {
+  try {
+    await Audio.setAudioModeAsync({
+      playsInSilentModeIOS: true,
+      staysActiveInBackground: false,
+    });
+
+    const speech = await provider.synthesize(text, resolveVoice(voice));
+
+    await new Promise<void>((resolve, reject) => {
+      provider.play(speech, { ...callbacks, onFinish: resolve, onInterrupt: resolve }).catch(reject);
+    });
+  } catch (error) {
+    if (isAbortError(error)) return;
+    console.error("Error with text-to-speech:", error);
+  }
+};
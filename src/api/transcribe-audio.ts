@@ -3,13 +3,23 @@ IMPORTANT NOTICE: DO NOT REMOVE
 This is a custom audio transcription service that uses a custom API endpoint maintained by Vibecode.
 You can use this function to transcribe audio files, and it will return the text of the audio file.
 */
+import { recordUsage, UsageFeature } from "../usage";
+import { request } from "./http-client";
+import { AppLocale, getLocale } from "../i18n";
+
+const TRANSCRIPTION_TIMEOUT_MS = 60_000;
 
 /**
  * Transcribe an audio file
  * @param localAudioUri - The local URI of the audio file to transcribe. Obtained via the expo-av library.
+ * @param options - The feature to record usage under, the recording length so its cost can be estimated, an abort signal,
+ * and the spoken language (defaults to the current locale)
  * @returns The text of the audio file
  */
-export const transcribeAudio = async (localAudioUri: string) => {
+export const transcribeAudio = async (
+  localAudioUri: string,
+  options?: { feature?: UsageFeature; durationMs?: number; signal?: AbortSignal; language?: AppLocale },
+) => {
   try {
     // Create FormData for the audio file
     const formData = new FormData();
@@ -19,7 +29,7 @@ export const transcribeAudio = async (localAudioUri: string) => {
       name: "recording.m4a",
     } as any);
     formData.append("model", "gpt-4o-transcribe");
-    formData.append("language", "en");
+    formData.append("language", options?.language ?? getLocale());
 
     const OPENAI_API_KEY = process.env.EXPO_PUBLIC_VIBECODE_OPENAI_API_KEY;
     if (!OPENAI_API_KEY) {
@@ -27,20 +37,24 @@ export const transcribeAudio = async (localAudioUri: string) => {
     }
 
     // API call to OpenAI's gpt-4o-transcribe
-    const response = await fetch("https://api.openai.com/v1/audio/transcriptions", {
+    const response = await request("https://api.openai.com/v1/audio/transcriptions", {
       method: "POST",
       headers: {
         Authorization: `Bearer ${OPENAI_API_KEY}`,
       },
       body: formData,
+      timeoutMs: TRANSCRIPTION_TIMEOUT_MS,
+      signal: options?.signal,
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Transcription failed: ${errorText}`);
-    }
-
     const result = await response.json();
+    recordUsage({
+      kind: "transcription",
+      provider: "openai",
+      model: "gpt-4o-transcribe",
+      feature: options?.feature,
+      audioSeconds: options?.durationMs !== undefined ? options.durationMs / 1000 : undefined,
+    });
     return result.text;
   } catch (error) {
     console.error("Transcription error:", error);
@@ -0,0 +1,214 @@
+/*
+IMPORTANT NOTICE: DO NOT REMOVE
+./src/api/tts-cache.ts
+Disk cache for synthesized speech. Clips are content-addressed by voice, model, voice settings and text,
+so the same narration is only ever paid for once per device.
+*/
+import * as FileSystem from "expo-file-system";
+import * as Crypto from "expo-crypto";
+import type { SpeechAlignment, VoicePreset } from "./text-to-speech";
+
+export interface SpeechCacheOptions {
+  maxBytes: number;
+  maxEntries: number;
+}
+
+interface SpeechCacheEntry {
+  key: string;
+  fileUri: string;
+  alignmentUri?: string;
+  size: number;
+  createdAt: number;
+  lastAccessedAt: number;
+}
+
+interface SpeechCacheIndex {
+  version: 1;
+  entries: Record<string, SpeechCacheEntry>;
+}
+
+export interface CachedSpeech {
+  fileUri: string;
+  alignment?: SpeechAlignment;
+}
+
+export interface SpeechCache {
+  get(text: string, voice: VoicePreset): Promise<CachedSpeech | null>;
+  put(text: string, voice: VoicePreset, base64Audio: string, alignment?: SpeechAlignment): Promise<string>;
+  /**
+   * Keep a clip from being evicted, e.g. while it is loaded for playback
+   * @returns A function that releases the hold
+   */
+  retain(fileUri: string): () => void;
+  clear(): Promise<void>;
+}
+
+const DEFAULT_OPTIONS: SpeechCacheOptions = {
+  maxBytes: 25 * 1024 * 1024,
+  maxEntries: 100,
+};
+
+// Clips stored or read this recently are likely about to play, e.g. prefetched or still loading, so they're kept
+const RECENT_USE_MS = 60_000;
+
+/**
+ * Compute the cache key for a clip
+ * Anything that changes the audio must be part of the key.
+ * @param text - The spoken text
+ * @param voice - The voice preset used to synthesize it
+ * @returns A hex SHA-256 digest
+ */
+export const getSpeechCacheKey = (text: string, voice: VoicePreset) => {
+  const fingerprint = JSON.stringify({
+    voiceId: voice.voiceId,
+    modelId: voice.modelId,
+    settings: voice.settings,
+    text,
+  });
+  return Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, fingerprint);
+};
+
+/**
+ * Create a speech cache in its own directory under the app cache
+ * Entries are evicted least-recently-used first once either limit is exceeded.
+ * @param directoryName - Folder name inside FileSystem.cacheDirectory
+ * @param options - Size and entry limits
+ */
+export const createSpeechCache = (directoryName: string, options?: Partial<SpeechCacheOptions>): SpeechCache => {
+  const limits = { ...DEFAULT_OPTIONS, ...options };
+  const directoryUri = `${FileSystem.cacheDirectory}${directoryName}/`;
+  const indexUri = `${directoryUri}index.json`;
+
+  let indexPromise: Promise<SpeechCacheIndex> | null = null;
+  // Index writes are chained so concurrent puts never interleave
+  let writeQueue: Promise<void> = Promise.resolve();
+  // Holds on clips that are loaded for playback, by file URI; a clip can be held by several providers
+  const retained = new Map<string, number>();
+
+  const loadIndex = () => {
+    if (!indexPromise) {
+      indexPromise = (async () => {
+        await FileSystem.makeDirectoryAsync(directoryUri, { intermediates: true }).catch(() => undefined);
+        try {
+          const raw = await FileSystem.readAsStringAsync(indexUri);
+          const parsed = JSON.parse(raw) as SpeechCacheIndex;
+          if (parsed?.version === 1 && parsed.entries) {
+            return parsed;
+          }
+        } catch {
+          // Missing or corrupt index, start fresh
+        }
+        return { version: 1, entries: {} } as SpeechCacheIndex;
+      })();
+    }
+    return indexPromise;
+  };
+
+  const saveIndex = (index: SpeechCacheIndex) => {
+    writeQueue = writeQueue
+      .then(() => FileSystem.writeAsStringAsync(indexUri, JSON.stringify(index)))
+      .catch((error) => console.warn("[SpeechCache] Could not save index:", error));
+    return writeQueue;
+  };
+
+  // Clips in use are skipped, so the cache can run over its limits until they're released
+  const isInUse = (entry: SpeechCacheEntry, now: number) =>
+    retained.has(entry.fileUri) || now - entry.lastAccessedAt < RECENT_USE_MS;
+
+  const evict = async (index: SpeechCacheIndex, keepKey: string) => {
+    const entries = Object.values(index.entries).sort((a, b) => a.lastAccessedAt - b.lastAccessedAt);
+    let totalBytes = entries.reduce((sum, entry) => sum + entry.size, 0);
+    let count = entries.length;
+    const now = Date.now();
+
+    for (const entry of entries) {
+      if (totalBytes <= limits.maxBytes && count <= limits.maxEntries) break;
+      if (entry.key === keepKey || isInUse(entry, now)) continue;
+      delete index.entries[entry.key];
+      totalBytes -= entry.size;
+      count -= 1;
+      await FileSystem.deleteAsync(entry.fileUri, { idempotent: true }).catch(() => undefined);
+      if (entry.alignmentUri) {
+        await FileSystem.deleteAsync(entry.alignmentUri, { idempotent: true }).catch(() => undefined);
+      }
+    }
+  };
+
+  const readAlignment = async (alignmentUri?: string) => {
+    if (!alignmentUri) return undefined;
+    try {
+      return JSON.parse(await FileSystem.readAsStringAsync(alignmentUri)) as SpeechAlignment;
+    } catch {
+      // Timing is optional, subtitles fall back to uniform pacing without it
+      return undefined;
+    }
+  };
+
+  const get = async (text: string, voice: VoicePreset) => {
+    const [index, key] = await Promise.all([loadIndex(), getSpeechCacheKey(text, voice)]);
+    const entry = index.entries[key];
+    if (!entry) return null;
+
+    const info = await FileSystem.getInfoAsync(entry.fileUri);
+    if (!info.exists) {
+      delete index.entries[key];
+      await saveIndex(index);
+      return null;
+    }
+
+    entry.lastAccessedAt = Date.now();
+    await saveIndex(index);
+    return { fileUri: entry.fileUri, alignment: await readAlignment(entry.alignmentUri) };
+  };
+
+  const put = async (text: string, voice: VoicePreset, base64Audio: string, alignment?: SpeechAlignment) => {
+    const [index, key] = await Promise.all([loadIndex(), getSpeechCacheKey(text, voice)]);
+    const fileUri = `${directoryUri}${key}.mp3`;
+
+    await FileSystem.writeAsStringAsync(fileUri, base64Audio, {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+
+    let alignmentUri: string | undefined;
+    if (alignment) {
+      alignmentUri = `${directoryUri}${key}.json`;
+      await FileSystem.writeAsStringAsync(alignmentUri, JSON.stringify(alignment));
+    }
+
+    const now = Date.now();
+    index.entries[key] = {
+      key,
+      fileUri,
+      alignmentUri,
+      // Base64 encodes 3 bytes in 4 characters
+      size: Math.ceil((base64Audio.length * 3) / 4),
+      createdAt: now,
+      lastAccessedAt: now,
+    };
+
+    await evict(index, key);
+    await saveIndex(index);
+    return fileUri;
+  };
+
+  const retain = (fileUri: string) => {
+    retained.set(fileUri, (retained.get(fileUri) ?? 0) + 1);
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      const holds = (retained.get(fileUri) ?? 1) - 1;
+      if (holds > 0) retained.set(fileUri, holds);
+      else retained.delete(fileUri);
+    };
+  };
+
+  const clear = async () => {
+    indexPromise = null;
+    await FileSystem.deleteAsync(directoryUri, { idempotent: true }).catch(() => undefined);
+  };
+
+  return { get, put, retain, clear };
+};
+
+export const speechCache = createSpeechCache("tts-cache");
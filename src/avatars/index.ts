@@ -0,0 +1,10 @@
+export type * from "./types";
+export {
+  parseAvatarMetadata,
+  fetchAvatarMetadata,
+  getCachedAvatarMetadata,
+  refreshAvatarMetadata,
+  InvalidAvatarMetadataError,
+} from "./metadata";
+export { getAvatarPresentation } from "./presentation";
+export { loadRpmSessionToken, saveRpmSessionToken, clearRpmSession } from "./session";
@@ -0,0 +1,84 @@
+import { requestJson } from "../api/http-client";
+import useAvatarMetadataStore from "../state/avatarMetadataStore";
+import type { BodyType } from "../types";
+import type { AvatarMetadata, OutfitGender } from "./types";
+
+const METADATA_TIMEOUT_MS = 10_000;
+
+const BODY_TYPES: BodyType[] = ["fullbody", "halfbody"];
+const OUTFIT_GENDERS: OutfitGender[] = ["masculine", "feminine", "neutral"];
+
+export class InvalidAvatarMetadataError extends Error {
+  readonly avatarId: string;
+
+  constructor(avatarId: string, problem: string) {
+    super(`Invalid metadata for avatar ${avatarId}: ${problem}`);
+    this.name = "InvalidAvatarMetadataError";
+    this.avatarId = avatarId;
+  }
+}
+
+const isOneOf = <T extends string>(values: readonly T[], value: unknown): value is T =>
+  typeof value === "string" && (values as readonly string[]).includes(value);
+
+/**
+ * Check and type the JSON Ready Player Me returns for an avatar
+ * @throws InvalidAvatarMetadataError if a required field is missing or unrecognised
+ */
+export const parseAvatarMetadata = (avatarId: string, raw: unknown): AvatarMetadata => {
+  if (typeof raw !== "object" || raw === null) throw new InvalidAvatarMetadataError(avatarId, "not an object");
+  const { bodyType, outfitGender, outfitVersion, skinTone, updatedAt } = raw as Record<string, unknown>;
+
+  if (!isOneOf(BODY_TYPES, bodyType)) {
+    throw new InvalidAvatarMetadataError(avatarId, `unknown body type ${String(bodyType)}`);
+  }
+  if (typeof updatedAt !== "string") throw new InvalidAvatarMetadataError(avatarId, "updatedAt is missing");
+
+  const outfit = isOneOf(OUTFIT_GENDERS, outfitGender) ? outfitGender : undefined;
+  return {
+    avatarId,
+    gender: outfit === "feminine" ? "female" : "male",
+    bodyType,
+    outfitGender: outfit,
+    outfitVersion: typeof outfitVersion === "number" ? outfitVersion : undefined,
+    skinTone: typeof skinTone === "string" ? skinTone : undefined,
+    updatedAt,
+  };
+};
+
+/**
+ * Fetch an avatar's metadata from Ready Player Me, bypassing the cache
+ */
+export const fetchAvatarMetadata = async (
+  avatarId: string,
+  { signal }: { signal?: AbortSignal } = {},
+): Promise<AvatarMetadata> => {
+  const raw = await requestJson<unknown>(`https://models.readyplayer.me/${avatarId}.json`, {
+    timeoutMs: METADATA_TIMEOUT_MS,
+    signal,
+  });
+  return parseAvatarMetadata(avatarId, raw);
+};
+
+/**
+ * The last metadata seen for an avatar, which may be stale
+ */
+export const getCachedAvatarMetadata = (avatarId: string): AvatarMetadata | undefined =>
+  useAvatarMetadataStore.getState().entries[avatarId];
+
+/**
+ * Fetch an avatar's metadata and update the cache if the avatar changed since it was cached
+ * An unchanged avatar leaves the cached object as it is, so components showing it don't re-render.
+ * @returns The current metadata
+ */
+export const refreshAvatarMetadata = async (
+  avatarId: string,
+  options: { signal?: AbortSignal } = {},
+): Promise<AvatarMetadata> => {
+  const metadata = await fetchAvatarMetadata(avatarId, options);
+  const cached = getCachedAvatarMetadata(avatarId);
+  if (cached?.updatedAt === metadata.updatedAt) return cached;
+
+  useAvatarMetadataStore.getState().setMetadata(metadata);
+  return metadata;
+};
@@ -0,0 +1,42 @@
+import type { AvatarFraming, AvatarMetadata, AvatarPresentation } from "./types";
+
+const ANIMATION_LIBRARY = "https://cdn.jsdelivr.net/gh/readyplayerme/animation-library@master";
+
+const FULL_BODY_ANIMATIONS = {
+  male: {
+    idle: `${ANIMATION_LIBRARY}/masculine/glb/dance/M_Dances_001.glb`,
+    talking: `${ANIMATION_LIBRARY}/masculine/glb/expression/M_Talking_Variations_001.glb`,
+  },
+  female: {
+    idle: `${ANIMATION_LIBRARY}/feminine/glb/dance/F_Dances_001.glb`,
+    talking: `${ANIMATION_LIBRARY}/feminine/glb/expression/F_Talking_Variations_001.glb`,
+  },
+};
+
+// The viewer stands avatars with their feet at y = -1
+const FULL_BODY_FRAMING: AvatarFraming = { cameraPosition: [0, 0.8, 3.5], target: [0, 0.3, 0] };
+const HEAD_AND_SHOULDERS_FRAMING: AvatarFraming = { cameraPosition: [0, 1.2, 2], target: [0, 0.8, 0] };
+
+/**
+ * Pick the voice, animations and camera framing for an avatar
+ * Half-body avatars have no legs to dance with, so they stay framed from the chest up without animations.
+ * @param metadata - The avatar's metadata, or null while it's unknown, which presents it as a full-body male avatar
+ */
+export const getAvatarPresentation = (metadata: AvatarMetadata | null): AvatarPresentation => {
+  const gender = metadata?.gender ?? "male";
+  const voice = gender === "female" ? "avatarFemale" : "avatarMale";
+
+  if (metadata?.bodyType === "halfbody") {
+    return {
+      voice,
+      animations: {},
+      framing: { idle: HEAD_AND_SHOULDERS_FRAMING, talking: HEAD_AND_SHOULDERS_FRAMING },
+    };
+  }
+
+  return {
+    voice,
+    animations: FULL_BODY_ANIMATIONS[gender],
+    framing: { idle: FULL_BODY_FRAMING, talking: HEAD_AND_SHOULDERS_FRAMING },
+  };
+};
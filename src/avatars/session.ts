@@ -0,0 +1,49 @@
+import * as SecureStore from "expo-secure-store";
+
+// The Ready Player Me session token logs the user in to the creator, so it's kept in the keychain/keystore
+// rather than with the rest of the onboarding progress in AsyncStorage
+const SESSION_KEY = "rpm-session";
+
+interface StoredSession {
+  userId: string;
+  token: string;
+}
+
+/**
+ * The saved session token for a Ready Player Me user
+ * @param userId - The user the token must belong to
+ * @returns The token, or null if none is saved for this user or secure storage isn't available
+ */
+export const loadRpmSessionToken = async (userId: string | undefined): Promise<string | null> => {
+  if (!userId) return null;
+  try {
+    const stored = await SecureStore.getItemAsync(SESSION_KEY);
+    const session = stored ? (JSON.parse(stored) as StoredSession) : null;
+    return session?.userId === userId ? session.token : null;
+  } catch (error) {
+    console.warn("[avatars] Could not read the Ready Player Me session:", error);
+    return null;
+  }
+};
+
+/**
+ * Save a user's session token, replacing any other user's
+ */
+export const saveRpmSessionToken = async (userId: string, token: string) => {
+  try {
+    await SecureStore.setItemAsync(SESSION_KEY, JSON.stringify({ userId, token } satisfies StoredSession));
+  } catch (error) {
+    console.warn("[avatars] Could not save the Ready Player Me session:", error);
+  }
+};
+
+/**
+ * Forget the saved session, e.g. when the user logs out of the creator or starts over
+ */
+export const clearRpmSession = async () => {
+  try {
+    await SecureStore.deleteItemAsync(SESSION_KEY);
+  } catch (error) {
+    console.warn("[avatars] Could not clear the Ready Player Me session:", error);
+  }
+};
@@ -0,0 +1,48 @@
+import type { VoicePresetName } from "../api/text-to-speech";
+import type { BodyType } from "../types";
+
+export type AvatarGender = "male" | "female";
+
+// How Ready Player Me describes the outfit an avatar was created with
+export type OutfitGender = "masculine" | "feminine" | "neutral";
+
+/**
+ * What Ready Player Me reports about an avatar at https://models.readyplayer.me/<id>.json
+ */
+export interface AvatarMetadata {
+  avatarId: string;
+  // From the outfit; neutral or missing outfits count as male
+  gender: AvatarGender;
+  bodyType: BodyType;
+  outfitGender?: OutfitGender;
+  outfitVersion?: number;
+  // Hex color, e.g. "#c58c85"
+  skinTone?: string;
+  // ISO timestamp of the last change in the creator; a cached copy with a different value is stale
+  updatedAt: string;
+}
+
+export type Vector3 = [x: number, y: number, z: number];
+
+export interface AvatarFraming {
+  cameraPosition: Vector3;
+  // Where the camera looks and orbits around
+  target: Vector3;
+}
+
+/**
+ * How the avatar viewer presents an avatar, derived from its metadata
+ */
+export interface AvatarPresentation {
+  voice: VoicePresetName;
+  // Animation clips from the Ready Player Me animation library; none for skeletons they don't fit
+  animations: {
+    idle?: string;
+    talking?: string;
+  };
+  framing: {
+    idle: AvatarFraming;
+    // Closer in, for the greeting
+    talking: AvatarFraming;
+  };
+}
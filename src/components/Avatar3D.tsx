@@ -1,53 +1,50 @@
-import React, { useState, useEffect, useRef } from "react";
+import React, { useState, useEffect, useMemo, useRef } from "react";
 import { View, StyleSheet, ActivityIndicator, Text } from "react-native";
 import WebView from "react-native-webview";
-import * as FileSystem from "expo-file-system";
-import { Audio } from "expo-av";
+import { useNarration } from "../hooks/use-narration";
+import { getNarration } from "../narration";
+import { buildVisemeCues } from "../utils/visemes";
+import { useAvatarMetadata } from "../hooks/use-avatar-metadata";
+import { AvatarPresentation, getAvatarPresentation } from "../avatars";
 
 interface Avatar3DProps {
   avatarId: string;
   accepted?: boolean;
   userName?: string;
+  // Phonetic form of userName for the spoken greeting; defaults to userName
+  spokenName?: string;
   onGreetingComplete?: () => void;
 }
 
-export default function Avatar3D({ avatarId, accepted = false, userName = "there", onGreetingComplete }: Avatar3DProps) {
+export default function Avatar3D({
+  avatarId,
+  accepted = false,
+  userName = "there",
+  spokenName,
+  onGreetingComplete,
+}: Avatar3DProps) {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const webViewRef = useRef<WebView | null>(null);
   const [hasPlayedGreeting, setHasPlayedGreeting] = useState(false);
-
-  // Detect gender from avatar - ReadyPlayerMe avatars have gender info in their JSON metadata
-  const [avatarGender, setAvatarGender] = useState<"male" | "female">("male");
+  const { play: playNarration } = useNarration("avatarGreeting");
+
+  // Voice, animations and framing follow the avatar's gender and body type
+  // Without metadata, e.g. offline and never cached, the avatar is presented as full-body male
+  const { metadata, loading: metadataLoading } = useAvatarMetadata(avatarId);
+  const presentation = useMemo(() => getAvatarPresentation(metadata), [metadata]);
+  // The scene is built with the first presentation; later ones, e.g. from a metadata refresh after the avatar was
+  // edited, are posted into the running scene so it isn't reloaded mid-greeting
+  const scenePresentationRef = useRef<{ avatarId: string; presentation: AvatarPresentation } | null>(null);
+  if (!metadataLoading && scenePresentationRef.current?.avatarId !== avatarId) {
+    scenePresentationRef.current = { avatarId, presentation };
+  }
+  const scenePresentation = scenePresentationRef.current?.presentation ?? presentation;
 
   useEffect(() => {
-    // Detect gender by fetching avatar metadata from RPM API
-    const detectGender = async () => {
-      try {
-        // Ready Player Me provides a JSON metadata endpoint
-        const response = await fetch(`https://models.readyplayer.me/${avatarId}.json`);
-        if (response.ok) {
-          const metadata = await response.json();
-          // Check the outfit gender or body type
-          // RPM typically stores gender in the outfitGender field
-          if (metadata.outfitGender === "feminine" || metadata.bodyType === "feminine") {
-            setAvatarGender("female");
-          } else {
-            setAvatarGender("male");
-          }
-          console.log("Avatar gender detected:", metadata.outfitGender || metadata.bodyType);
-        } else {
-          // Fallback: if metadata endpoint doesn't work, default to male
-          console.log("Could not fetch avatar metadata, defaulting to male voice");
-          setAvatarGender("male");
-        }
-      } catch (e) {
-        console.log("Error detecting gender:", e);
-        setAvatarGender("male");
-      }
-    };
-    detectGender();
-  }, [avatarId]);
+    if (loading || presentation === scenePresentation) return;
+    webViewRef.current?.postMessage(JSON.stringify({ action: "setPresentation", ...presentation }));
+  }, [loading, presentation, scenePresentation]);
 
   useEffect(() => {
     if (accepted && webViewRef.current && !hasPlayedGreeting) {
@@ -64,86 +61,37 @@ export default function Avatar3D({ avatarId, accepted = false, userName = "there
   }, [accepted, webViewRef.current]);
 
   const playGreeting = async () => {
-    try {
-      await Audio.setAudioModeAsync({
-        playsInSilentModeIOS: true,
-        staysActiveInBackground: false,
-      });
-
-      const greetingText = `Hello ${userName}! Looking forward to working together!`;
-
-      // Use appropriate voice based on gender
-      // Male voice: Chris (masculine, professional)
-      // Female voice: Rachel (feminine, professional)
-      const voiceId = avatarGender === "male" ? "iP95p4xoKVk53GoZ742B" : "21m00Tcm4TlvDq8ikWAM";
-
-      const apiUrl = `https://api.elevenlabs.io/v1/text-to-speech/${voiceId}?output_format=mp3_44100_128`;
-
-      const response = await fetch(apiUrl, {
-        method: "POST",
-        headers: {
-          "xi-api-key": process.env.EXPO_PUBLIC_VIBECODE_ELEVENLABS_API_KEY!,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          text: greetingText,
-          model_id: "eleven_flash_v2_5",
-          voice_settings: {
-            stability: 0.7,
-            similarity_boost: 0.5,
-            style: 0.0,
-            use_speaker_boost: false,
-          },
-        }),
-      });
+    // Subtitles show the name as written, the audio says the phonetic form
+    const greeting = getNarration(
+      "avatarGreeting",
+      { firstName: userName },
+      { spokenVariables: spokenName ? { firstName: spokenName } : undefined },
+    );
+
+    // Use the avatar's voice, and start lip-sync as each segment's playback begins
+    await playNarration(greeting, {
+      avatarVoice: presentation.voice,
+      onSegmentStart: (_segment, durationMs, alignment) => {
+        webViewRef.current?.postMessage(
+          JSON.stringify({
+            action: "startSpeech",
+            durationMs,
+            cues: alignment ? buildVisemeCues(alignment) : [],
+          }),
+        );
+      },
+    });
 
-      if (!response.ok) {
-        throw new Error(`API request failed with status ${response.status}`);
-      }
+    webViewRef.current?.postMessage(JSON.stringify({ action: "stopSpeech" }));
 
-      const audioBuffer = await response.arrayBuffer();
-      const fileUri = `${FileSystem.cacheDirectory}avatar_greeting.mp3`;
-      const base64Audio = btoa(
-        new Uint8Array(audioBuffer).reduce(
-          (data, byte) => data + String.fromCharCode(byte),
-          ""
-        )
-      );
-
-      await FileSystem.writeAsStringAsync(fileUri, base64Audio, {
-        encoding: FileSystem.EncodingType.Base64,
-      });
-
-      const { sound } = await Audio.Sound.createAsync(
-        { uri: fileUri },
-        { shouldPlay: true }
-      );
-
-      sound.setOnPlaybackStatusUpdate((status) => {
-        if (status.isLoaded && status.didJustFinish) {
-          sound.unloadAsync();
-          // Notify that greeting is complete
-          if (onGreetingComplete) {
-            onGreetingComplete();
-          }
-        }
-      });
-    } catch (error) {
-      console.error("Error playing greeting:", error);
-      // Even if there's an error, call the callback
-      if (onGreetingComplete) {
-        onGreetingComplete();
-      }
+    // Notify that greeting is complete, even if speech failed
+    if (onGreetingComplete) {
+      onGreetingComplete();
     }
   };
 
-  const avatarUrl = `https://models.readyplayer.me/${avatarId}.glb`;
-  // Default dance animation
-  const danceAnimationUrl =
-    "https://cdn.jsdelivr.net/gh/readyplayerme/animation-library@master/masculine/glb/dance/M_Dances_001.glb";
-  // Talking animation for when user accepts
-  const talkingAnimationUrl =
-    "https://cdn.jsdelivr.net/gh/readyplayerme/animation-library@master/masculine/glb/expression/M_Talking_Variations_001.glb";
+  // Request ARKit and Oculus viseme morph targets so the mouth can be driven during speech
+  const avatarUrl = `https://models.readyplayer.me/${avatarId}.glb?morphTargets=${encodeURIComponent("ARKit,Oculus Visemes")}`;
 
   // Create an HTML page that uses Three.js to display the 3D avatar
   const html = `
@@ -215,6 +163,11 @@ export default function Avatar3D({ avatarId, accepted = false, userName = "there
         const container = document.getElementById('avatar-container');
         const loadingEl = document.getElementById('loading');
         const instructionsEl = document.querySelector('.instructions');
+        // Idle dance and talking animations, and camera framing for each, chosen from the avatar's metadata
+        // Replaced by setPresentation messages when the metadata changes
+        let animations = ${JSON.stringify(scenePresentation.animations)};
+        let framing = ${JSON.stringify(scenePresentation.framing)};
+        let talking = false;
 
         if (!THREE) {
           throw new Error('Three.js failed to load');
@@ -233,7 +186,7 @@ export default function Avatar3D({ avatarId, accepted = false, userName = "there
           0.1,
           1000
         );
-        camera.position.set(0, 0.8, 3.5);
+        camera.position.fromArray(framing.idle.cameraPosition);
 
         // Setup renderer
         const renderer = new THREE.WebGLRenderer({
@@ -368,7 +321,7 @@ export default function Avatar3D({ avatarId, accepted = false, userName = "there
         controls.enableRotate = true;
         controls.minPolarAngle = Math.PI / 2; // Lock vertical rotation
         controls.maxPolarAngle = Math.PI / 2; // Lock vertical rotation
-        controls.target.set(0, 0.3, 0);
+        controls.target.fromArray(framing.idle.target);
         controls.update();
 
         console.log('Controls created');
@@ -377,6 +330,80 @@ export default function Avatar3D({ avatarId, accepted = false, userName = "there
         // Load avatar and animation
         const loader = new THREE.GLTFLoader();
         let mixer;
+        let avatarModel;
+
+        function applyFraming() {
+          const current = talking ? framing.talking : framing.idle;
+          camera.position.fromArray(current.cameraPosition);
+          controls.target.fromArray(current.target);
+          controls.update();
+        }
+
+        // Replace whatever the avatar is doing with the first clip in an animation file
+        function playAnimation(url, label) {
+          loader.load(
+            url,
+            function(animGltf) {
+              console.log(label + ' animation loaded');
+              if (animGltf.animations && animGltf.animations.length > 0 && avatarModel) {
+                mixer = mixer || new THREE.AnimationMixer(avatarModel);
+                mixer.stopAllAction();
+                mixer.clipAction(animGltf.animations[0]).play();
+                console.log(label + ' animation playing');
+              }
+            },
+            undefined,
+            function(error) {
+              console.error(label + ' animation load error:', error);
+            }
+          );
+        }
+
+        // Lip-sync state, driven by startSpeech/stopSpeech messages from React Native
+        const morphMeshes = [];
+        let speech = null;
+
+        function setMorph(name, target, smoothing) {
+          for (let i = 0; i < morphMeshes.length; i++) {
+            const mesh = morphMeshes[i];
+            const index = mesh.morphTargetDictionary[name];
+            if (index === undefined) continue;
+            const current = mesh.morphTargetInfluences[index];
+            mesh.morphTargetInfluences[index] = current + (target - current) * smoothing;
+          }
+        }
+
+        function updateLipSync() {
+          if (!morphMeshes.length) return;
+
+          const elapsed = speech ? performance.now() - speech.startedAt : 0;
+          let activeViseme = 'viseme_sil';
+          let openness = 0;
+
+          if (speech && elapsed <= speech.durationMs) {
+            if (speech.cues.length) {
+              for (let i = 0; i < speech.cues.length; i++) {
+                const cue = speech.cues[i];
+                if (elapsed >= cue.startMs && elapsed < cue.endMs) {
+                  activeViseme = cue.viseme;
+                  openness = cue.openness;
+                  break;
+                }
+              }
+            } else {
+              // No timing data: approximate a speech envelope so the mouth still moves
+              openness = 0.25 + 0.25 * Math.sin(elapsed / 60) * Math.sin(elapsed / 170);
+            }
+          }
+
+          const visemes = ['viseme_sil', 'viseme_PP', 'viseme_FF', 'viseme_TH', 'viseme_DD', 'viseme_kk', 'viseme_CH',
+            'viseme_SS', 'viseme_nn', 'viseme_RR', 'viseme_aa', 'viseme_E', 'viseme_I', 'viseme_O', 'viseme_U'];
+          for (let i = 0; i < visemes.length; i++) {
+            setMorph(visemes[i], visemes[i] === activeViseme && speech ? 1 : 0, 0.4);
+          }
+          setMorph('mouthOpen', openness, 0.4);
+          setMorph('jawOpen', openness * 0.6, 0.4);
+        }
 
         // Load avatar
         loader.load(
@@ -390,10 +417,23 @@ export default function Avatar3D({ avatarId, accepted = false, userName = "there
             avatar.scale.set(1, 1, 1);
             avatar.position.set(0, -1, 0);
             scene.add(avatar);
+            avatarModel = avatar;
+
+            avatar.traverse(function(child) {
+              if (child.isMesh && child.morphTargetDictionary && child.morphTargetInfluences) {
+                morphMeshes.push(child);
+              }
+            });
+
+            if (!animations.idle) {
+              loadingEl.style.display = 'none';
+              instructionsEl.classList.add('visible');
+              return;
+            }
 
             // Load animation
             loader.load(
-              '${danceAnimationUrl}',
+              animations.idle,
               function(animGltf) {
                 console.log('Animation loaded successfully');
                 window.ReactNativeWebView && window.ReactNativeWebView.postMessage('Animation loaded');
@@ -448,6 +488,9 @@ export default function Avatar3D({ avatarId, accepted = false, userName = "there
             mixer.update(clock.getDelta());
           }
 
+          // Morph targets are applied after the mixer so body animation can't override the mouth
+          updateLipSync();
+
           // Animate particles
           const positions = particles.attributes.position.array;
           for (let i = 0; i < particleCount; i++) {
@@ -486,33 +529,38 @@ export default function Avatar3D({ avatarId, accepted = false, userName = "there
         window.addEventListener('message', function(event) {
           try {
             const message = JSON.parse(event.data);
-            if (message.action === 'switchToTalking') {
+            if (message.action === 'startSpeech') {
+              speech = {
+                startedAt: performance.now(),
+                durationMs: message.durationMs || 0,
+                cues: message.cues || []
+              };
+            } else if (message.action === 'stopSpeech') {
+              speech = null;
+            } else if (message.action === 'switchToTalking') {
               console.log('Switching to talking animation and zooming camera...');
 
               // Zoom camera to show only top half
-              camera.position.set(0, 1.2, 2);
-              controls.target.set(0, 0.8, 0);
-              controls.update();
+              talking = true;
+              applyFraming();
 
               // Load talking animation
-              loader.load(
-                '${talkingAnimationUrl}',
-                function(talkingGltf) {
-                  console.log('Talking animation loaded');
-                  if (talkingGltf.animations && talkingGltf.animations.length > 0 && mixer) {
-                    // Stop all current actions
-                    mixer.stopAllAction();
-                    // Play talking animation
-                    const talkAction = mixer.clipAction(talkingGltf.animations[0]);
-                    talkAction.play();
-                    console.log('Talking animation playing');
-                  }
-                },
-                undefined,
-                function(error) {
-                  console.error('Talking animation load error:', error);
-                }
-              );
+              if (animations.talking) {
+                playAnimation(animations.talking, 'Talking');
+              }
+            } else if (message.action === 'setPresentation') {
+              // Swap framing and animations in place, keeping the scene, camera mode and any speech going
+              const previousUrl = talking ? animations.talking : animations.idle;
+              animations = message.animations;
+              framing = message.framing;
+              applyFraming();
+
+              const url = talking ? animations.talking : animations.idle;
+              if (url && url !== previousUrl) {
+                playAnimation(url, talking ? 'Talking' : 'Idle');
+              } else if (!url && mixer) {
+                mixer.stopAllAction();
+              }
             }
           } catch (e) {
             console.error('Message parsing error:', e);
@@ -543,45 +591,48 @@ export default function Avatar3D({ avatarId, accepted = false, userName = "there
         </View>
       )}
 
-      <WebView
-        ref={webViewRef}
-        source={{ html }}
-        style={styles.webview}
-        javaScriptEnabled={true}
-        domStorageEnabled={true}
-        allowFileAccess={true}
-        originWhitelist={["*"]}
-        mixedContentMode="always"
-        allowUniversalAccessFromFileURLs={true}
-        onLoad={() => {
-          console.log("WebView loaded");
-          setLoading(false);
-        }}
-        onError={(syntheticEvent) => {
-          const { nativeEvent } = syntheticEvent;
-          console.error("WebView error:", nativeEvent);
-          setError("Failed to load 3D viewer");
-          setLoading(false);
-        }}
-        onMessage={(event) => {
-          const message = event.nativeEvent.data;
-          console.log("WebView message:", message);
-
-          // Only show error messages if they're actually errors, not just animation skips
-          if (message.includes("Failed") || message.includes("Fatal")) {
-            setError(message);
-          }
+      {/* Wait for the metadata, so the scene loads once with the right animations and framing */}
+      {!metadataLoading && (
+        <WebView
+          ref={webViewRef}
+          source={{ html }}
+          style={styles.webview}
+          javaScriptEnabled={true}
+          domStorageEnabled={true}
+          allowFileAccess={true}
+          originWhitelist={["*"]}
+          mixedContentMode="always"
+          allowUniversalAccessFromFileURLs={true}
+          onLoad={() => {
+            console.log("WebView loaded");
+            setLoading(false);
+          }}
+          onError={(syntheticEvent) => {
+            const { nativeEvent } = syntheticEvent;
+            console.error("WebView error:", nativeEvent);
+            setError("Failed to load 3D viewer");
+            setLoading(false);
+          }}
+          onMessage={(event) => {
+            const message = event.nativeEvent.data;
+            console.log("WebView message:", message);
+
+            // Only show error messages if they're actually errors, not just animation skips
+            if (message.includes("Failed") || message.includes("Fatal")) {
+              setError(message);
+            }
 
-          // Clear error if avatar loaded successfully
-          if (message.includes("Avatar loaded") || message.includes("Scene ready")) {
-            setError(null);
-          }
-        }}
-        onHttpError={(syntheticEvent) => {
-          const { nativeEvent } = syntheticEvent;
-          console.error("HTTP error:", nativeEvent);
-        }}
-      />
+            // Clear error if avatar loaded successfully
+            if (message.includes("Avatar loaded") || message.includes("Scene ready")) {
+              setError(null);
+            }
+          }}
+          onHttpError={(syntheticEvent) => {
+            const { nativeEvent } = syntheticEvent;
+            console.error("HTTP error:", nativeEvent);
+          }}
+        />
+      )}
 
       {error && (
         <View style={styles.errorContainer}>
@@ -0,0 +1,159 @@
+import React, { useEffect, useRef, useState } from "react";
+import { View, Text, Pressable, ActivityIndicator, StyleProp, ViewStyle } from "react-native";
+import WebView, { WebViewMessageEvent } from "react-native-webview";
+import { useAvatarCreatorUrl } from "../hooks/use-avatar-creator-url";
+import {
+  AssetUnlockedEvent,
+  AvatarCreatorEventDispatcher,
+  AvatarExportedEvent,
+  createAvatarCreatorEventDispatcher,
+  UserAuthorizedEvent,
+  UserLoggedOutEvent,
+  UserSetEvent,
+  UserUpdatedEvent,
+} from "../events";
+import type { AvatarCreatorConfig } from "../types";
+
+export interface AvatarCreatorProps {
+  // Your Ready Player Me subdomain, e.g. "demo" for https://demo.readyplayer.me
+  subdomain: string;
+  config?: AvatarCreatorConfig;
+  style?: StyleProp<ViewStyle>;
+  // Use your own dispatcher to also listen with wildcards or from outside the component
+  dispatcher?: AvatarCreatorEventDispatcher;
+  onFrameReady?: () => void;
+  // The creator confirmed our subscription; its events will follow
+  onSubscribed?: () => void;
+  onAvatarExported?: (event: AvatarExportedEvent) => void;
+  onUserSet?: (event: UserSetEvent) => void;
+  onUserAuthorized?: (event: UserAuthorizedEvent) => void;
+  onAssetUnlocked?: (event: AssetUnlockedEvent) => void;
+  onUserUpdated?: (event: UserUpdatedEvent) => void;
+  onUserLoggedOut?: (event: UserLoggedOutEvent) => void;
+  // Copy for the loading and error states, for apps that aren't in English
+  loadingText?: string;
+  errorText?: string;
+  retryText?: string;
+}
+
+type CreatorStatus = "loading" | "ready" | "error";
+
+// Sent once the frame is ready, and on page load in case v1.frame.ready never arrives; the creator acknowledges
+// with v1.subscription.created
+const SUBSCRIBE_MESSAGE = JSON.stringify({ target: "readyplayerme", type: "subscribe", eventName: "v1.**" });
+
+// A creator that hasn't sent anything by then is treated as failed, so the user gets the retry button
+const LOAD_TIMEOUT_MS = 30_000;
+
+/**
+ * The Ready Player Me avatar creator in a WebView
+ * Subscribes to the creator's events once its frame is ready and passes them, validated, to the typed callbacks.
+ * Shows a spinner until the creator sends its first event, and a retry button if the page fails or times out.
+ */
+export default function AvatarCreator({
+  subdomain,
+  config,
+  style,
+  dispatcher,
+  loadingText = "Loading avatar creator...",
+  errorText = "The avatar creator couldn't be loaded. Check your connection and try again.",
+  retryText = "Try again",
+  ...callbacks
+}: AvatarCreatorProps) {
+  const webView = useRef<WebView | null>(null);
+  const url = useAvatarCreatorUrl(subdomain, config);
+  const [ownDispatcher] = useState(createAvatarCreatorEventDispatcher);
+  const events = dispatcher ?? ownDispatcher;
+  const [status, setStatus] = useState<CreatorStatus>("loading");
+  // Bumped to remount the WebView on retry
+  const [attempt, setAttempt] = useState(0);
+  // Callbacks read the latest props without resubscribing on every render
+  const callbacksRef = useRef(callbacks);
+  callbacksRef.current = callbacks;
+  // Whether the creator has acknowledged a subscription on the current page
+  const subscribedRef = useRef(false);
+
+  useEffect(() => {
+    const subscriptions = [
+      events.on("v1.frame.ready", () => {
+        if (!subscribedRef.current) webView.current?.postMessage(SUBSCRIBE_MESSAGE);
+        callbacksRef.current.onFrameReady?.();
+      }),
+      events.on("v1.subscription.created", () => {
+        subscribedRef.current = true;
+        callbacksRef.current.onSubscribed?.();
+      }),
+      events.on("v1.avatar.exported", (event) => callbacksRef.current.onAvatarExported?.(event)),
+      events.on("v1.user.set", (event) => callbacksRef.current.onUserSet?.(event)),
+      events.on("v1.user.authorized", (event) => callbacksRef.current.onUserAuthorized?.(event)),
+      events.on("v1.asset.unlock", (event) => callbacksRef.current.onAssetUnlocked?.(event)),
+      events.on("v1.user.updated", (event) => callbacksRef.current.onUserUpdated?.(event)),
+      events.on("v1.user.logout", (event) => callbacksRef.current.onUserLoggedOut?.(event)),
+    ];
+    return () => subscriptions.forEach((unsubscribe) => unsubscribe());
+  }, [events]);
+
+  // A new URL is a new creator session, which sends its own v1.frame.ready
+  useEffect(() => {
+    subscribedRef.current = false;
+    setStatus("loading");
+  }, [url]);
+
+  useEffect(() => {
+    if (status !== "loading") return;
+    const timer = setTimeout(() => setStatus("error"), LOAD_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [status, url, attempt]);
+
+  const onLoad = () => {
+    if (!subscribedRef.current) webView.current?.postMessage(SUBSCRIBE_MESSAGE);
+  };
+
+  // Malformed or unknown messages are dropped by the dispatcher; any valid event means the creator is up
+  const onMessage = (message: WebViewMessageEvent) => {
+    if (events.dispatch(message.nativeEvent.data)) {
+      setStatus((current) => (current === "loading" ? "ready" : current));
+    }
+  };
+
+  const onLoadError = () => setStatus("error");
+
+  const retry = () => {
+    subscribedRef.current = false;
+    setStatus("loading");
+    setAttempt((current) => current + 1);
+  };
+
+  return (
+    <View style={[{ flex: 1 }, style]}>
+      {status !== "error" && (
+        <WebView
+          key={attempt}
+          ref={webView}
+          style={{ flex: 1 }}
+          source={{ uri: url }}
+          onLoad={onLoad}
+          onMessage={onMessage}
+          onError={onLoadError}
+          onHttpError={onLoadError}
+        />
+      )}
+
+      {status === "loading" && (
+        <View className="absolute inset-0 bg-white items-center justify-center">
+          <ActivityIndicator size="large" color="#3B82F6" />
+          <Text className="text-gray-500 mt-4">{loadingText}</Text>
+        </View>
+      )}
+
+      {status === "error" && (
+        <View className="flex-1 bg-white items-center justify-center px-8">
+          <Text className="text-base text-gray-700 text-center mb-6">{errorText}</Text>
+          <Pressable onPress={retry} className="bg-blue-500 px-8 py-4 rounded-full">
+            <Text className="text-white font-semibold text-lg">{retryText}</Text>
+          </Pressable>
+        </View>
+      )}
+    </View>
+  );
+}
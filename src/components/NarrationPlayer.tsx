@@ -0,0 +1,63 @@
+import React from "react";
+import { View, Text, Pressable } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import type { NarrationControls } from "../hooks/use-narration";
+import { useLocale } from "../hooks/use-locale";
+import { PLAYBACK_RATES } from "../state/narrationStore";
+
+interface NarrationPlayerProps {
+  controls: NarrationControls;
+}
+
+function ControlButton({
+  icon,
+  label,
+  onPress,
+}: {
+  icon: keyof typeof Ionicons.glyphMap;
+  label: string;
+  onPress: () => void;
+}) {
+  return (
+    <Pressable onPress={onPress} accessibilityLabel={label} hitSlop={8} className="w-11 h-11 items-center justify-center">
+      <Ionicons name={icon} size={22} color="white" />
+    </Pressable>
+  );
+}
+
+/**
+ * Playback controls shown over the screen while a narration plays
+ * Skip only appears for scripts the catalog marks as skippable.
+ */
+export default function NarrationPlayer({ controls }: NarrationPlayerProps) {
+  const { t } = useLocale();
+  const { status, narration, rate } = controls;
+
+  if (status === "idle") return null;
+
+  const nextRate = PLAYBACK_RATES[(PLAYBACK_RATES.indexOf(rate) + 1) % PLAYBACK_RATES.length];
+
+  return (
+    <View className="absolute top-16 left-0 right-0 items-center z-10">
+      <View className="flex-row items-center bg-black/70 rounded-full px-2">
+        <ControlButton icon="refresh" label={t("narration.replay")} onPress={controls.replay} />
+        {status === "paused" ? (
+          <ControlButton icon="play" label={t("narration.resume")} onPress={controls.resume} />
+        ) : (
+          <ControlButton icon="pause" label={t("narration.pause")} onPress={controls.pause} />
+        )}
+        <Pressable
+          onPress={() => controls.setRate(nextRate)}
+          accessibilityLabel={t("narration.speed")}
+          hitSlop={8}
+          className="h-11 px-2 items-center justify-center"
+        >
+          <Text className="text-white font-semibold">{`${rate}x`}</Text>
+        </Pressable>
+        {narration?.skippable && (
+          <ControlButton icon="play-skip-forward" label={t("narration.skip")} onPress={controls.skip} />
+        )}
+      </View>
+    </View>
+  );
+}
@@ -0,0 +1,121 @@
+import React, { useState } from "react";
+import { View, Text, TextInput, Pressable, ScrollView, KeyboardAvoidingView, Platform } from "react-native";
+import { format } from "date-fns";
+import { useAutosave } from "../hooks/use-autosave";
+import { useLocale } from "../hooks/use-locale";
+import useKnowledgeStore, {
+  KNOWLEDGE_SECTIONS,
+  KnowledgeNote,
+  KnowledgeSectionDefinition,
+  useKnowledgeHydrated,
+} from "../state/knowledgeStore";
+
+interface TrainingWorkspaceProps {
+  onFinish: () => void;
+}
+
+function SectionEditor({ section }: { section: KnowledgeSectionDefinition }) {
+  const savedContent = useKnowledgeStore((state) => state.sections[section.id]?.content ?? "");
+  const saveSection = useKnowledgeStore((state) => state.saveSection);
+  const [draft, setDraft] = useState(savedContent);
+  const { t } = useLocale();
+
+  useAutosave(draft, (content) => saveSection(section.id, content));
+
+  return (
+    <View className="mb-6">
+      <Text className="text-lg font-semibold text-black mb-2">{t(`training.section.${section.id}.title`)}</Text>
+      <TextInput
+        value={draft}
+        onChangeText={setDraft}
+        placeholder={t(`training.section.${section.id}.placeholder`)}
+        placeholderTextColor="#999999"
+        multiline
+        textAlignVertical="top"
+        className="w-full min-h-[96px] bg-gray-100 px-4 py-3 rounded-2xl text-black text-base"
+      />
+    </View>
+  );
+}
+
+function NoteEditor({ note }: { note: KnowledgeNote }) {
+  const saveNote = useKnowledgeStore((state) => state.saveNote);
+  const removeNote = useKnowledgeStore((state) => state.removeNote);
+  const [title, setTitle] = useState(note.title);
+  const [content, setContent] = useState(note.content);
+  const { t } = useLocale();
+
+  useAutosave(title, (value) => saveNote(note.id, { title: value }));
+  useAutosave(content, (value) => saveNote(note.id, { content: value }));
+
+  return (
+    <View className="mb-4 bg-gray-100 rounded-2xl p-4">
+      <View className="flex-row items-center mb-2">
+        <TextInput
+          value={title}
+          onChangeText={setTitle}
+          placeholder={t("training.noteTitlePlaceholder")}
+          placeholderTextColor="#999999"
+          className="flex-1 text-black text-base font-semibold"
+        />
+        <Pressable onPress={() => removeNote(note.id)} className="pl-3 py-1">
+          <Text className="text-red-500 font-semibold">{t("training.removeNote")}</Text>
+        </Pressable>
+      </View>
+      <TextInput
+        value={content}
+        onChangeText={setContent}
+        placeholder={t("training.noteContentPlaceholder")}
+        placeholderTextColor="#999999"
+        multiline
+        textAlignVertical="top"
+        className="w-full min-h-[72px] text-black text-base"
+      />
+    </View>
+  );
+}
+
+export default function TrainingWorkspace({ onFinish }: TrainingWorkspaceProps) {
+  const notes = useKnowledgeStore((state) => state.notes);
+  const addNote = useKnowledgeStore((state) => state.addNote);
+  const lastSavedAt = useKnowledgeStore((state) => state.lastSavedAt);
+  const hydrated = useKnowledgeHydrated();
+  const { t } = useLocale();
+
+  // The editors seed their drafts once, so wait for saved knowledge or the first keystroke would overwrite it
+  if (!hydrated) {
+    return <View className="flex-1 bg-white" />;
+  }
+
+  return (
+    <KeyboardAvoidingView behavior={Platform.OS === "ios" ? "padding" : "height"} className="flex-1 bg-white">
+      <ScrollView className="flex-1" contentContainerClassName="px-6 pt-16 pb-8" keyboardShouldPersistTaps="handled">
+        <Text className="text-3xl font-bold text-black">{t("training.title")}</Text>
+        <Text className="text-base text-gray-600 mt-2 mb-1">
+          {t("training.subtitle")}
+        </Text>
+        <Text className="text-sm text-gray-400 mb-6">
+          {lastSavedAt
+            ? t("training.savedAt", { time: format(lastSavedAt, "h:mm a") })
+            : t("training.autosaveHint")}
+        </Text>
+
+        {KNOWLEDGE_SECTIONS.map((section) => (
+          <SectionEditor key={section.id} section={section} />
+        ))}
+
+        <Text className="text-lg font-semibold text-black mb-2">{t("training.notes")}</Text>
+        {notes.map((note) => (
+          <NoteEditor key={note.id} note={note} />
+        ))}
+        <Pressable onPress={addNote} className="w-full py-3 rounded-2xl border border-dashed border-gray-300 mb-8">
+          <Text className="text-gray-600 text-center text-base font-semibold">{t("training.addNote")}</Text>
+        </Pressable>
+
+        <Pressable onPress={onFinish} className="w-full py-4 rounded-2xl bg-blue-500">
+          <Text className="text-white text-center text-lg font-semibold">{t("training.finish")}</Text>
+        </Pressable>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
@@ -5,4 +5,4 @@ export type AssetUnlockedEventPayload = {
   assetId: string;
 };
 
-export type AssetUnlockedEvent = IFrameEvent<AssetUnlockedEventPayload>;
+export type AssetUnlockedEvent = IFrameEvent<AssetUnlockedEventPayload, 'v1.asset.unlock'>;
@@ -6,4 +6,4 @@ export type AvatarExportedEventPayload = {
   userId: string;
 };
 
-export type AvatarExportedEvent = IFrameEvent<AvatarExportedEventPayload>;
+export type AvatarExportedEvent = IFrameEvent<AvatarExportedEventPayload, 'v1.avatar.exported'>;
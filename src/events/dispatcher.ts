@@ -0,0 +1,122 @@
+import { safeJsonParse } from '../utils/safe-json';
+import type { AvatarCreatorEvent, AvatarCreatorEventMap, AvatarCreatorEventName } from './index';
+import { AVATAR_CREATOR_EVENT_SCHEMAS, validatePayload } from './schemas';
+
+// The `source` Ready Player Me puts on every event it posts
+const RPM_SOURCE = 'readyplayerme';
+
+export type AvatarCreatorEventHandler<TEvent extends AvatarCreatorEvent = AvatarCreatorEvent> = (event: TEvent) => void;
+
+/**
+ * A wildcard subscription, using the creator's own subscribe syntax
+ * - "*" or "**": every event
+ * - "v1.user.*": one more segment, e.g. v1.user.set but not v1.user.set.extra
+ * - "v1.**": any number of segments
+ */
+export type AvatarCreatorEventPattern = '*' | '**' | `${string}.*` | `${string}.**`;
+
+export interface InvalidAvatarCreatorEvent {
+  eventName: AvatarCreatorEventName;
+  problems: string[];
+  message: unknown;
+}
+
+export interface AvatarCreatorEventDispatcherOptions {
+  // Called when a known event arrives with a payload that doesn't match its schema; logs a warning by default
+  onInvalid?: (invalid: InvalidAvatarCreatorEvent) => void;
+}
+
+export interface AvatarCreatorEventDispatcher {
+  /**
+   * Subscribe to one event, or to every event matching a wildcard pattern
+   * @returns A function that removes the subscription
+   */
+  on<TName extends AvatarCreatorEventName>(
+    eventName: TName,
+    handler: AvatarCreatorEventHandler<AvatarCreatorEventMap[TName]>,
+  ): () => void;
+  on(pattern: AvatarCreatorEventPattern, handler: AvatarCreatorEventHandler): () => void;
+  /**
+   * Validate a message and pass it to matching handlers
+   * @param message - A WebView message string, or an already parsed object
+   * @returns The event that was dispatched, or null if the message was ignored
+   */
+  dispatch(message: unknown): AvatarCreatorEvent | null;
+  // Remove every subscription
+  clear(): void;
+}
+
+const isKnownEventName = (eventName: string): eventName is AvatarCreatorEventName =>
+  Object.prototype.hasOwnProperty.call(AVATAR_CREATOR_EVENT_SCHEMAS, eventName);
+
+const matchesPattern = (pattern: string, eventName: string) => {
+  if (pattern === '*' || pattern === '**') return true;
+  if (pattern.endsWith('.**')) return eventName.startsWith(pattern.slice(0, -2));
+  if (pattern.endsWith('.*')) {
+    const prefix = pattern.slice(0, -1);
+    return eventName.startsWith(prefix) && !eventName.slice(prefix.length).includes('.');
+  }
+  return pattern === eventName;
+};
+
+/**
+ * Create a dispatcher for events posted by the Ready Player Me creator
+ * Messages are parsed safely and checked against each event's schema, so malformed or unexpected
+ * messages are dropped instead of reaching handlers; messages from other sources are ignored.
+ * @param options - What to do with invalid payloads
+ */
+export const createAvatarCreatorEventDispatcher = ({
+  onInvalid = (invalid) =>
+    console.warn(`[rpm] Ignoring invalid ${invalid.eventName} event:`, invalid.problems.join('; ')),
+}: AvatarCreatorEventDispatcherOptions = {}): AvatarCreatorEventDispatcher => {
+  const listeners = new Map<string, Set<AvatarCreatorEventHandler>>();
+
+  // Handlers for a single event only ever receive that event, so they're stored as taking any event
+  const on = (eventName: string, handler: AvatarCreatorEventHandler) => {
+    let handlers = listeners.get(eventName);
+    if (!handlers) {
+      handlers = new Set();
+      listeners.set(eventName, handlers);
+    }
+    handlers.add(handler);
+
+    return () => {
+      handlers.delete(handler);
+      if (handlers.size === 0) listeners.delete(eventName);
+    };
+  };
+
+  const dispatch = (message: unknown): AvatarCreatorEvent | null => {
+    const parsed = typeof message === 'string' ? safeJsonParse(message) : message;
+    if (typeof parsed !== 'object' || parsed === null) return null;
+
+    const { source, eventName, data } = parsed as Record<string, unknown>;
+    if (source !== RPM_SOURCE || typeof eventName !== 'string' || !isKnownEventName(eventName)) return null;
+
+    const problems = validatePayload(AVATAR_CREATOR_EVENT_SCHEMAS[eventName], data);
+    if (problems.length > 0) {
+      onInvalid({ eventName, problems, message: parsed });
+      return null;
+    }
+
+    const event = { eventName, source, data } as AvatarCreatorEvent;
+    // Copied so handlers can unsubscribe while being called
+    const handlers = [...listeners.entries()]
+      .filter(([key]) => matchesPattern(key, eventName))
+      .flatMap(([, set]) => [...set]);
+
+    for (const handler of handlers) {
+      try {
+        handler(event);
+      } catch (error) {
+        // One failing handler shouldn't keep the others from seeing the event
+        console.error(`[rpm] ${eventName} handler failed:`, error);
+      }
+    }
+    return event;
+  };
+
+  const clear = () => listeners.clear();
+
+  return { on: on as AvatarCreatorEventDispatcher['on'], dispatch, clear };
+};
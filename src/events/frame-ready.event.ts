@@ -0,0 +1,4 @@
+import { IFrameEvent } from '../types';
+
+// Sent once the creator has loaded and can receive messages, before any subscription exists
+export type FrameReadyEvent = IFrameEvent<never, 'v1.frame.ready'>;
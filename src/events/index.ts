@@ -4,6 +4,8 @@ import { UserAuthorizedEvent } from './user-authorized.event';
 import { AvatarExportedEvent } from './avatar-exported.event';
 import { UserUpdatedEvent } from './user-updated.event';
 import { UserLoggedOutEvent } from './user-logged-out.event';
+import { FrameReadyEvent } from './frame-ready.event';
+import { SubscriptionCreatedEvent } from './subscription-created.event';
 
 export type { AssetUnlockedEvent, AssetUnlockedEventPayload } from './asset-unlocked.event';
 export type { AvatarExportedEvent, AvatarExportedEventPayload } from './avatar-exported.event';
@@ -11,11 +13,33 @@ export type { UserAuthorizedEvent, UserAuthorizedEventPayload } from './user-aut
 export type { UserSetEvent, UserSetEventPayload } from './user-set.event';
 export type { UserUpdatedEvent, UserUpdatedEventPayload } from './user-updated.event';
 export type { UserLoggedOutEvent } from './user-logged-out.event';
+export type { FrameReadyEvent } from './frame-ready.event';
+export type { SubscriptionCreatedEvent } from './subscription-created.event';
 
-export type AvatarCreatorEvent =
-  | UserSetEvent
-  | AssetUnlockedEvent
-  | UserAuthorizedEvent
-  | AvatarExportedEvent
-  | UserUpdatedEvent
-  | UserLoggedOutEvent;
+// Every event the creator sends that the app understands, by eventName
+export type AvatarCreatorEventMap = {
+  'v1.user.set': UserSetEvent;
+  'v1.asset.unlock': AssetUnlockedEvent;
+  'v1.user.authorized': UserAuthorizedEvent;
+  'v1.avatar.exported': AvatarExportedEvent;
+  'v1.user.updated': UserUpdatedEvent;
+  'v1.user.logout': UserLoggedOutEvent;
+  'v1.frame.ready': FrameReadyEvent;
+  'v1.subscription.created': SubscriptionCreatedEvent;
+};
+
+export type AvatarCreatorEventName = keyof AvatarCreatorEventMap;
+
+// Discriminated by eventName
+export type AvatarCreatorEvent = AvatarCreatorEventMap[AvatarCreatorEventName];
+
+export { createAvatarCreatorEventDispatcher } from './dispatcher';
+export { AVATAR_CREATOR_EVENT_SCHEMAS, validatePayload } from './schemas';
+export type { PayloadSchema } from './schemas';
+export type {
+  AvatarCreatorEventDispatcher,
+  AvatarCreatorEventHandler,
+  AvatarCreatorEventPattern,
+  AvatarCreatorEventDispatcherOptions,
+  InvalidAvatarCreatorEvent,
+} from './dispatcher';
@@ -0,0 +1,53 @@
+import type { AvatarCreatorEventMap, AvatarCreatorEventName } from './index';
+
+type FieldType = 'string' | 'number' | 'boolean';
+
+/**
+ * The shape of an event's `data`, checked at runtime before handlers see it
+ * Each payload field maps to its type, with a trailing "?" when it may be missing; null means the event has no data.
+ */
+export type PayloadSchema<TPayload> = [TPayload] extends [never]
+  ? null
+  : { [K in keyof TPayload]-?: undefined extends TPayload[K] ? `${FieldType}?` : FieldType };
+
+type EventSchemas = {
+  [TName in AvatarCreatorEventName]: PayloadSchema<AvatarCreatorEventMap[TName]['data']>;
+};
+
+export const AVATAR_CREATOR_EVENT_SCHEMAS: EventSchemas = {
+  'v1.avatar.exported': { url: 'string', avatarId: 'string', userId: 'string' },
+  'v1.asset.unlock': { userId: 'string', assetId: 'string' },
+  'v1.user.set': { id: 'string', token: 'string?' },
+  'v1.user.authorized': { id: 'string', token: 'string?' },
+  'v1.user.updated': { id: 'string' },
+  'v1.user.logout': null,
+  'v1.frame.ready': null,
+  'v1.subscription.created': null,
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Check a payload against its schema
+ * @param schema - The event's schema
+ * @param data - The payload as received
+ * @returns A description of each problem; empty when the payload is valid
+ */
+export const validatePayload = (schema: Record<string, string> | null, data: unknown): string[] => {
+  if (schema === null) return [];
+  if (!isRecord(data)) return ['data is not an object'];
+
+  const problems: string[] = [];
+  for (const [field, fieldType] of Object.entries(schema)) {
+    const optional = fieldType.endsWith('?');
+    const expected = optional ? fieldType.slice(0, -1) : fieldType;
+    const value = data[field];
+    if (value === undefined || value === null) {
+      if (!optional) problems.push(`${field} is missing`);
+    } else if (typeof value !== expected) {
+      problems.push(`${field} should be a ${expected}, got ${typeof value}`);
+    }
+  }
+  return problems;
+};
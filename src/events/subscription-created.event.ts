@@ -0,0 +1,4 @@
+import { IFrameEvent } from '../types';
+
+// Acknowledges the "subscribe" message; events are only sent after this
+export type SubscriptionCreatedEvent = IFrameEvent<never, 'v1.subscription.created'>;
@@ -2,6 +2,8 @@ import { IFrameEvent } from '../types';
 
 export type UserAuthorizedEventPayload = {
   id: string;
+  // Session token for the user, to log them back in with the creator's token parameter
+  token?: string;
 };
 
-export type UserAuthorizedEvent = IFrameEvent<UserAuthorizedEventPayload>;
+export type UserAuthorizedEvent = IFrameEvent<UserAuthorizedEventPayload, 'v1.user.authorized'>;
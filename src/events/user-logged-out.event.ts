@@ -1,3 +1,3 @@
 import { IFrameEvent } from '../types';
 
-export type UserLoggedOutEvent = IFrameEvent<never>;
+export type UserLoggedOutEvent = IFrameEvent<never, 'v1.user.logout'>;
@@ -2,6 +2,8 @@ import { IFrameEvent } from '../types';
 
 export type UserSetEventPayload = {
   id: string;
+  // Session token for the user, to log them back in with the creator's token parameter
+  token?: string;
 };
 
-export type UserSetEvent = IFrameEvent<UserSetEventPayload>;
+export type UserSetEvent = IFrameEvent<UserSetEventPayload, 'v1.user.set'>;
@@ -4,4 +4,4 @@ export type UserUpdatedEventPayload = {
   id: string;
 };
 
-export type UserUpdatedEvent = IFrameEvent<UserUpdatedEventPayload>;
+export type UserUpdatedEvent = IFrameEvent<UserUpdatedEventPayload, 'v1.user.updated'>;
@@ -0,0 +1,24 @@
+import { useCallback, useEffect, useRef } from "react";
+
+/**
+ * An AbortSignal that is aborted when the calling component unmounts
+ * Pass it to request() or any API function that takes a signal so in-flight calls stop with the screen.
+ * @returns A function returning the current signal; call it when starting a request
+ */
+export const useAbortSignal = () => {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    // A fresh controller per mount, so a remount doesn't inherit an aborted signal
+    const controller = controllerRef.current?.signal.aborted === false ? controllerRef.current : new AbortController();
+    controllerRef.current = controller;
+    return () => controller.abort();
+  }, []);
+
+  return useCallback(() => {
+    if (!controllerRef.current) {
+      controllerRef.current = new AbortController();
+    }
+    return controllerRef.current.signal;
+  }, []);
+};
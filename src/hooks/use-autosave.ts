@@ -0,0 +1,33 @@
+import { useEffect, useRef } from "react";
+
+/**
+ * Save a value a short while after it stops changing
+ * Pending changes are flushed when the component unmounts, so nothing typed is lost on navigation.
+ * @param value - The current draft
+ * @param save - Persists the draft
+ * @param delayMs - How long the value must be stable before saving
+ */
+export const useAutosave = <T>(value: T, save: (value: T) => void, delayMs = 800) => {
+  const savedValue = useRef(value);
+  const latest = useRef({ value, save });
+  latest.current = { value, save };
+
+  useEffect(() => {
+    if (Object.is(value, savedValue.current)) return;
+
+    const timer = setTimeout(() => {
+      savedValue.current = value;
+      latest.current.save(value);
+    }, delayMs);
+    return () => clearTimeout(timer);
+  }, [value, delayMs]);
+
+  useEffect(() => {
+    return () => {
+      const { value: pending, save: flush } = latest.current;
+      if (!Object.is(pending, savedValue.current)) {
+        flush(pending);
+      }
+    };
+  }, []);
+};
@@ -1,20 +1,41 @@
 import { AvatarCreatorConfig } from '../types';
 import { useMemo } from 'react';
 
-export const useAvatarCreatorUrl = (subdomain: string, config: AvatarCreatorConfig | undefined): string => {
-  return useMemo(() => {
-    let url = `https://${subdomain || `demo`}.readyplayer.me`;
+/**
+ * Build the avatar creator URL for a subdomain and config
+ * Values are encoded with URLSearchParams; flags such as frameApi are added without a value, as the creator expects.
+ * The URL carries the session token if one is set, so don't log it.
+ * @param subdomain - Your Ready Player Me subdomain; "demo" if empty
+ * @param config - Creator options
+ */
+export const buildAvatarCreatorUrl = (subdomain: string, config: AvatarCreatorConfig = {}): string => {
+  let url = `https://${subdomain || 'demo'}.readyplayer.me`;
+
+  if (config.language) url += `/${encodeURIComponent(config.language)}`;
+
+  url += '/avatar';
+
+  const flags = ['frameApi'];
+  // Only append() and toString() are available on React Native's URLSearchParams
+  const params = new URLSearchParams();
+  params.append('source', 'react-native-avatar-creator');
 
-    if (config?.language) url += `/${config.language}`;
+  if (config.clearCache) flags.push('clearCache');
 
-    url += `/avatar?frameApi&source=react-native-avatar-creator`;
+  if (config.quickStart) flags.push('quickStart');
 
-    if (config?.clearCache) url += '&clearCache';
+  if (config.bodyType) params.append('bodyType', config.bodyType);
+  else if (config.selectBodyType) flags.push('selectBodyType');
 
-    if (config?.quickStart) url += '&quickStart';
+  if (config.gender) params.append('gender', config.gender);
 
-    if (config?.bodyType) url += `&bodyType=${config?.bodyType}`;
+  if (config.avatarId) params.append('id', config.avatarId);
 
-    return url;
-  }, [subdomain, config]);
+  if (config.token) params.append('token', config.token);
+
+  return `${url}?${[...flags, params.toString()].join('&')}`;
+};
+
+export const useAvatarCreatorUrl = (subdomain: string, config: AvatarCreatorConfig | undefined): string => {
+  return useMemo(() => buildAvatarCreatorUrl(subdomain, config), [subdomain, config]);
 };
@@ -0,0 +1,50 @@
+import { useEffect, useState } from "react";
+import { isAbortError } from "../api/http-client";
+import { AvatarMetadata, refreshAvatarMetadata } from "../avatars";
+import useAvatarMetadataStore from "../state/avatarMetadataStore";
+
+export interface AvatarMetadataState {
+  // The cached metadata straight away, replaced if Ready Player Me reports a newer version
+  metadata: AvatarMetadata | null;
+  // True until there is metadata to show or the fetch has failed
+  loading: boolean;
+  // Set when the fetch failed and nothing was cached
+  error: Error | null;
+}
+
+/**
+ * An avatar's metadata, served from the persistent cache and refreshed from Ready Player Me on mount
+ * @param avatarId - The Ready Player Me avatar ID
+ */
+export const useAvatarMetadata = (avatarId: string): AvatarMetadataState => {
+  const cached = useAvatarMetadataStore((state) => state.entries[avatarId]);
+  const [refresh, setRefresh] = useState<{ avatarId: string; error: Error | null; done: boolean }>({
+    avatarId,
+    error: null,
+    done: false,
+  });
+
+  useEffect(() => {
+    // Abandon the lookup if the avatar changes or the component unmounts first
+    const controller = new AbortController();
+    setRefresh({ avatarId, error: null, done: false });
+
+    refreshAvatarMetadata(avatarId, { signal: controller.signal })
+      .then(() => setRefresh({ avatarId, error: null, done: true }))
+      .catch((error) => {
+        if (isAbortError(error)) return;
+        console.warn(`[avatars] Could not load metadata for ${avatarId}:`, error);
+        setRefresh({ avatarId, error: error instanceof Error ? error : new Error(String(error)), done: true });
+      });
+
+    return () => controller.abort();
+  }, [avatarId]);
+
+  // Results from a previous avatar don't count while the new one loads
+  const current = refresh.avatarId === avatarId ? refresh : { error: null, done: false };
+  return {
+    metadata: cached ?? null,
+    loading: !cached && !current.done,
+    error: cached ? null : current.error,
+  };
+};
@@ -0,0 +1,22 @@
+import { useCallback } from "react";
+import useLocaleStore from "../state/localeStore";
+import { getLocale, StringKey, translate } from "../i18n";
+import type { InterpolationVariables } from "../utils/interpolate";
+
+/**
+ * The current locale and a translate function bound to it
+ * Components using this re-render when the user picks another language.
+ */
+export const useLocale = () => {
+  // Subscribing to the stored choice is what triggers the re-render; getLocale() resolves the device fallback
+  const chosen = useLocaleStore((state) => state.locale);
+  const setLocale = useLocaleStore((state) => state.setLocale);
+  const locale = chosen ?? getLocale();
+
+  const t = useCallback(
+    (key: StringKey, variables?: InterpolationVariables) => translate(key, variables, locale),
+    [locale],
+  );
+
+  return { locale, setLocale, t };
+};
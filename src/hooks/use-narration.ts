@@ -0,0 +1,218 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { SpeechAlignment, VoicePresetName } from "../api/text-to-speech";
+import { Narration, NarrationSegment, NarrationVoice } from "../narration";
+import { UsageFeature } from "../usage";
+import useNarrationStore from "../state/narrationStore";
+import { buildSubtitleCues, getSubtitleAt, SubtitleCue } from "../utils/subtitles";
+import { useTextToSpeech } from "./use-text-to-speech";
+
+export interface PlayNarrationOptions {
+  // Voice for scripts spoken by the avatar
+  avatarVoice?: VoicePresetName;
+  // Called as each segment's audio starts, e.g. to start lip-sync
+  onSegmentStart?: (segment: NarrationSegment, durationMs: number, alignment?: SpeechAlignment) => void;
+}
+
+// "loading" is waiting for a segment's audio; a [pause] between segments counts as playing
+export type NarrationStatus = "idle" | "loading" | "playing" | "paused";
+
+export type NarrationOutcome = "finished" | "skipped";
+
+// One call to play(); flags are flipped by the controls and read by the playback loop
+interface PlaybackSession {
+  cancelled: boolean;
+  replay: boolean;
+  paused: boolean;
+  // Resolves on cancel, so a skip doesn't wait for audio that is still loading
+  whenCancelled: Promise<void>;
+  cancel: () => void;
+}
+
+const createSession = (): PlaybackSession => {
+  let resolveCancelled = () => {};
+  const session: PlaybackSession = {
+    cancelled: false,
+    replay: false,
+    paused: false,
+    whenCancelled: new Promise<void>((resolve) => (resolveCancelled = resolve)),
+    cancel: () => {
+      session.cancelled = true;
+      resolveCancelled();
+    },
+  };
+  return session;
+};
+
+// How often a [pause] checks for pause, replay and skip
+const GAP_TICK_MS = 50;
+
+const resolveNarrationVoice = (voice: NarrationVoice, avatarVoice: VoicePresetName = "avatarMale") =>
+  voice === "avatar" ? avatarVoice : voice;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Wait out a [pause], counting only unpaused time at the current speed
+const waitForGap = async (ms: number, session: PlaybackSession, getRate: () => number) => {
+  let remaining = ms;
+  while (remaining > 0 && !session.cancelled && !session.replay) {
+    await wait(GAP_TICK_MS);
+    if (!session.paused) remaining -= GAP_TICK_MS * getRate();
+  }
+};
+
+/**
+ * Play scripts from the narration catalog, segment by segment with their pauses
+ * Playback can be paused, the current line replayed, skippable scripts skipped and the speed changed;
+ * `subtitle` follows the audio position, so it stays in sync through all of those.
+ * @param feature - What this component's speech is recorded under in the usage ledger
+ */
+export const useNarration = (feature?: UsageFeature) => {
+  const { speak, prefetch, stop: stopSpeech, pause: pauseSpeech, resume: resumeSpeech, setRate } =
+    useTextToSpeech(feature);
+  const rate = useNarrationStore((state) => state.playbackRate);
+  const setPlaybackRate = useNarrationStore((state) => state.setPlaybackRate);
+  const [status, setStatus] = useState<NarrationStatus>("idle");
+  const [subtitle, setSubtitle] = useState("");
+  const [narration, setNarration] = useState<Narration | null>(null);
+  const sessionRef = useRef<PlaybackSession | null>(null);
+  const rateRef = useRef(rate);
+
+  useEffect(() => {
+    rateRef.current = rate;
+    setRate(rate);
+  }, [rate, setRate]);
+
+  // Unmounting stops the audio; this keeps the loop from moving on to the next segment
+  useEffect(
+    () => () => {
+      sessionRef.current?.cancel();
+    },
+    [],
+  );
+
+  const prefetchNarration = useCallback(
+    (narration: Narration, avatarVoice?: VoicePresetName) => {
+      const voice = resolveNarrationVoice(narration.voice, avatarVoice);
+      narration.segments.forEach((segment) => prefetch(segment.spokenText, voice));
+    },
+    [prefetch],
+  );
+
+  /**
+   * Play a narration to the end
+   * Starting another narration ends this one as skipped.
+   * @returns Whether it played to the end or was skipped or stopped
+   */
+  const play = useCallback(
+    async (narration: Narration, options: PlayNarrationOptions = {}): Promise<NarrationOutcome> => {
+      sessionRef.current?.cancel();
+      const session = createSession();
+      sessionRef.current = session;
+
+      const voice = resolveNarrationVoice(narration.voice, options.avatarVoice);
+      // Later segments load while earlier ones play, so pauses aren't stretched by synthesis
+      prefetchNarration(narration, options.avatarVoice);
+      setNarration(narration);
+      setSubtitle("");
+
+      let index = 0;
+      while (index < narration.segments.length && !session.cancelled) {
+        const segment = narration.segments[index];
+        let cues: SubtitleCue[] = [];
+        session.replay = false;
+        setStatus(session.paused ? "paused" : "loading");
+
+        const speech = speak(segment.spokenText, voice, {
+          onDurationReady: (durationMs, alignment) => {
+            if (session.cancelled) {
+              stopSpeech();
+              return;
+            }
+            // A replay asked for while loading is this clip starting from the top
+            session.replay = false;
+            if (session.paused) {
+              pauseSpeech();
+            } else {
+              setStatus("playing");
+            }
+            cues = buildSubtitleCues(segment.text, durationMs, alignment);
+            options.onSegmentStart?.(segment, durationMs, alignment);
+          },
+          onPositionChange: (positionMs) => {
+            if (!session.cancelled) setSubtitle(getSubtitleAt(cues, positionMs));
+          },
+        });
+        await Promise.race([speech, session.whenCancelled]);
+
+        if (session.cancelled || session.replay) continue;
+        await waitForGap(segment.pauseAfterMs, session, () => rateRef.current);
+        if (session.replay) continue;
+        index++;
+      }
+
+      if (sessionRef.current === session) {
+        sessionRef.current = null;
+        setStatus("idle");
+      }
+      return session.cancelled ? "skipped" : "finished";
+    },
+    [speak, stopSpeech, pauseSpeech, prefetchNarration],
+  );
+
+  const pause = useCallback(() => {
+    const session = sessionRef.current;
+    if (!session || session.paused) return;
+    session.paused = true;
+    setStatus("paused");
+    pauseSpeech();
+  }, [pauseSpeech]);
+
+  const resume = useCallback(() => {
+    const session = sessionRef.current;
+    if (!session || !session.paused) return;
+    session.paused = false;
+    setStatus("playing");
+    resumeSpeech();
+  }, [resumeSpeech]);
+
+  // Start the current line again, or the one just spoken during a pause after it
+  const replay = useCallback(() => {
+    const session = sessionRef.current;
+    if (!session) return;
+    session.replay = true;
+    session.paused = false;
+    setStatus("loading");
+    setSubtitle("");
+    stopSpeech();
+  }, [stopSpeech]);
+
+  // End the narration now; play() resolves with "skipped"
+  const stop = useCallback(() => {
+    sessionRef.current?.cancel();
+    setSubtitle("");
+    return stopSpeech();
+  }, [stopSpeech]);
+
+  // Like stop, but only for scripts the catalog marks as skippable
+  const skip = useCallback(() => {
+    if (!narration?.skippable) return;
+    stop();
+  }, [narration, stop]);
+
+  return {
+    play,
+    prefetch: prefetchNarration,
+    stop,
+    pause,
+    resume,
+    replay,
+    skip,
+    setRate: setPlaybackRate,
+    status,
+    subtitle,
+    narration,
+    rate,
+  };
+};
+
+export type NarrationControls = ReturnType<typeof useNarration>;
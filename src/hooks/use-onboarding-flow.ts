@@ -0,0 +1,59 @@
+import { useCallback, useMemo } from "react";
+import { useShallow } from "zustand/react/shallow";
+import { canGoBack, OnboardingContext, OnboardingStep } from "../onboarding/flow";
+import useOnboardingStore from "../state/onboardingStore";
+
+export interface OnboardingFlow {
+  step: OnboardingStep;
+  context: OnboardingContext;
+  completedSteps: OnboardingStep[];
+  canGoBack: boolean;
+  advance: (context?: Partial<OnboardingContext>) => void;
+  goTo: (step: OnboardingStep, context?: Partial<OnboardingContext>) => void;
+  back: () => void;
+  update: (context: Partial<OnboardingContext>) => void;
+  reset: () => void;
+}
+
+/**
+ * Drive the persisted onboarding state machine from a component
+ */
+export const useOnboardingFlow = (): OnboardingFlow => {
+  const { step, history, context, completedSteps, dispatch, updateProfile, startOver } = useOnboardingStore(
+    useShallow((state) => ({
+      step: state.step,
+      history: state.history,
+      context: state.context,
+      completedSteps: state.completedSteps,
+      dispatch: state.dispatch,
+      updateProfile: state.updateProfile,
+      startOver: state.startOver,
+    })),
+  );
+
+  const advance = useCallback(
+    (update?: Partial<OnboardingContext>) => dispatch({ type: "advance", context: update }),
+    [dispatch],
+  );
+  const goTo = useCallback(
+    (target: OnboardingStep, update?: Partial<OnboardingContext>) =>
+      dispatch({ type: "goTo", step: target, context: update }),
+    [dispatch],
+  );
+  const back = useCallback(() => dispatch({ type: "back" }), [dispatch]);
+
+  return useMemo(
+    () => ({
+      step,
+      context,
+      completedSteps,
+      canGoBack: canGoBack({ step, history, context }),
+      advance,
+      goTo,
+      back,
+      update: updateProfile,
+      reset: startOver,
+    }),
+    [step, history, context, completedSteps, advance, goTo, back, updateProfile, startOver],
+  );
+};
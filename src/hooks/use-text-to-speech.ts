@@ -0,0 +1,60 @@
+import { useCallback, useEffect, useRef } from "react";
+import {
+  createElevenLabsProvider,
+  resolveVoice,
+  PlaybackCallbacks,
+  speakWithProvider,
+  TextToSpeechProvider,
+  VoicePreset,
+  VoicePresetName,
+} from "../api/text-to-speech";
+import { isAbortError } from "../api/http-client";
+import { UsageFeature } from "../usage";
+import { useAbortSignal } from "./use-abort-signal";
+
+/**
+ * Speak lines through a text-to-speech provider owned by the calling component
+ * Playback is stopped, and any synthesis still in flight cancelled, when the component unmounts.
+ * @param feature - What this component's speech is recorded under in the usage ledger
+ */
+export const useTextToSpeech = (feature: UsageFeature = "narration") => {
+  const getSignal = useAbortSignal();
+  const providerRef = useRef<TextToSpeechProvider | null>(null);
+  if (!providerRef.current) {
+    // A getter, since the signal is replaced when the component remounts
+    providerRef.current = createElevenLabsProvider({ feature, signal: getSignal });
+  }
+
+  useEffect(() => {
+    const provider = providerRef.current;
+    return () => {
+      provider?.stop();
+    };
+  }, []);
+
+  const speak = useCallback(
+    (
+      text: string,
+      voice: VoicePreset | VoicePresetName,
+      callbacks?: Pick<PlaybackCallbacks, "onDurationReady" | "onPositionChange">,
+    ) => {
+      return speakWithProvider(providerRef.current!, text, voice, callbacks);
+    },
+    [],
+  );
+
+  // Warm the cache for a line that will be spoken soon; failures are ignored and retried on speak
+  const prefetch = useCallback((text: string, voice: VoicePreset | VoicePresetName) => {
+    providerRef.current!.prefetch(text, resolveVoice(voice)).catch((error) => {
+      if (isAbortError(error)) return;
+      console.warn("Could not prefetch speech:", error);
+    });
+  }, []);
+
+  const stop = useCallback(() => providerRef.current!.stop(), []);
+  const pause = useCallback(() => providerRef.current!.pause(), []);
+  const resume = useCallback(() => providerRef.current!.resume(), []);
+  const setRate = useCallback((rate: number) => providerRef.current!.setRate(rate), []);
+
+  return { speak, prefetch, stop, pause, resume, setRate };
+};
@@ -0,0 +1,111 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Audio } from "expo-av";
+
+export type RecorderStatus = "idle" | "recording" | "denied";
+
+export interface Recording {
+  uri: string;
+  durationMs: number;
+}
+
+// Shorter than this is an accidental tap rather than speech
+const MIN_RECORDING_MS = 300;
+
+// Recording routes playback to the earpiece on iOS; this puts it back on the speaker
+const restorePlaybackMode = () =>
+  Audio.setAudioModeAsync({ allowsRecordingIOS: false, playsInSilentModeIOS: true, staysActiveInBackground: false });
+
+/**
+ * Record short voice clips with expo-av, for hold-to-talk buttons
+ * The microphone permission is requested on the first start(); once denied, status stays "denied".
+ * Any recording still running is discarded when the component unmounts.
+ */
+export const useVoiceRecorder = () => {
+  const [status, setStatus] = useState<RecorderStatus>("idle");
+  const recordingRef = useRef<Audio.Recording | null>(null);
+  // Set when stop() is called while start() is still preparing, so the clip is discarded as soon as it exists
+  const stopRequestedRef = useRef(false);
+
+  const discard = useCallback(async () => {
+    const recording = recordingRef.current;
+    recordingRef.current = null;
+    if (!recording) return;
+    try {
+      await recording.stopAndUnloadAsync();
+    } catch {
+      // Already stopped
+    }
+    await restorePlaybackMode().catch(() => {});
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      discard();
+    };
+  }, [discard]);
+
+  /**
+   * Start recording
+   * @returns Whether recording is now running; false if the microphone can't be used, so the caller can fall back
+   * to typing, or if stop() was called before it got going, e.g. because the permission prompt cancelled the press
+   */
+  const start = useCallback(async (): Promise<boolean> => {
+    if (recordingRef.current) return true;
+    stopRequestedRef.current = false;
+
+    try {
+      const permission = await Audio.requestPermissionsAsync();
+      if (!permission.granted) {
+        setStatus("denied");
+        return false;
+      }
+
+      await Audio.setAudioModeAsync({ allowsRecordingIOS: true, playsInSilentModeIOS: true });
+      const { recording } = await Audio.Recording.createAsync(Audio.RecordingOptionsPresets.HIGH_QUALITY);
+      recordingRef.current = recording;
+
+      if (stopRequestedRef.current) {
+        await discard();
+        setStatus("idle");
+        return false;
+      }
+
+      setStatus("recording");
+      return true;
+    } catch (error) {
+      console.warn("[recorder] Could not start recording:", error);
+      await discard();
+      setStatus("idle");
+      return false;
+    }
+  }, [discard]);
+
+  /**
+   * Stop recording
+   * @returns The recorded clip, or null if nothing usable was recorded
+   */
+  const stop = useCallback(async (): Promise<Recording | null> => {
+    const recording = recordingRef.current;
+    if (!recording) {
+      stopRequestedRef.current = true;
+      return null;
+    }
+    recordingRef.current = null;
+    setStatus("idle");
+
+    try {
+      const { durationMillis } = await recording.getStatusAsync();
+      await recording.stopAndUnloadAsync();
+      const uri = recording.getURI();
+      if (!uri || durationMillis < MIN_RECORDING_MS) return null;
+      return { uri, durationMs: durationMillis };
+    } catch (error) {
+      console.warn("[recorder] Could not stop recording:", error);
+      return null;
+    } finally {
+      await restorePlaybackMode().catch(() => {});
+    }
+  }, []);
+
+  return { status, start, stop };
+};
@@ -0,0 +1,36 @@
+import useLocaleStore from "../state/localeStore";
+import { interpolate, InterpolationVariables } from "../utils/interpolate";
+import { AppLocale, DEFAULT_LOCALE, detectLocale } from "./locales";
+import { en, StringBundle, StringKey } from "./strings/en";
+import { de } from "./strings/de";
+import { fr } from "./strings/fr";
+import { es } from "./strings/es";
+
+export { LOCALES, SUPPORTED_LOCALES, DEFAULT_LOCALE, detectLocale, isSupportedLocale } from "./locales";
+export type { AppLocale, LocaleDefinition } from "./locales";
+export type { StringKey, StringBundle } from "./strings/en";
+
+const STRINGS: Record<AppLocale, StringBundle> = { en, de, fr, es };
+
+// Device language, read once per launch
+let deviceLocale: AppLocale | null = null;
+
+/**
+ * The language the app is currently shown and spoken in
+ * The user's choice if they made one, otherwise the device language.
+ */
+export const getLocale = (): AppLocale => {
+  const chosen = useLocaleStore.getState().locale;
+  if (chosen) return chosen;
+  deviceLocale ??= detectLocale();
+  return deviceLocale;
+};
+
+/**
+ * Translate a UI string
+ * @param key - The string's key in the English bundle
+ * @param variables - Values for the string's {name} placeholders
+ * @param locale - Defaults to the current locale
+ */
+export const translate = (key: StringKey, variables?: InterpolationVariables, locale: AppLocale = getLocale()) =>
+  interpolate(STRINGS[locale]?.[key] ?? STRINGS[DEFAULT_LOCALE][key], variables);
@@ -0,0 +1,42 @@
+import { getLocales } from "expo-localization";
+import type { Language } from "../types";
+
+// Languages the onboarding has been translated into
+export type AppLocale = "en" | "de" | "fr" | "es";
+
+export interface LocaleDefinition {
+  // Shown in the language picker, in the language itself
+  nativeName: string;
+  // Used when telling a model which language to answer in
+  englishName: string;
+  // The Ready Player Me creator's language path segment
+  rpmLanguage: Language;
+}
+
+export const DEFAULT_LOCALE: AppLocale = "en";
+
+export const LOCALES: Record<AppLocale, LocaleDefinition> = {
+  en: { nativeName: "English", englishName: "English", rpmLanguage: "en" },
+  de: { nativeName: "Deutsch", englishName: "German", rpmLanguage: "de" },
+  fr: { nativeName: "Français", englishName: "French", rpmLanguage: "fr" },
+  es: { nativeName: "Español", englishName: "Spanish", rpmLanguage: "es" },
+};
+
+export const SUPPORTED_LOCALES = Object.keys(LOCALES) as AppLocale[];
+
+export const isSupportedLocale = (value: string | null | undefined): value is AppLocale =>
+  !!value && value in LOCALES;
+
+/**
+ * Pick the first of the device's preferred languages that the app supports
+ * @returns The matching locale, or English if none match
+ */
+export const detectLocale = (): AppLocale => {
+  try {
+    const match = getLocales().find((locale) => isSupportedLocale(locale.languageCode));
+    return (match?.languageCode as AppLocale | undefined) ?? DEFAULT_LOCALE;
+  } catch (error) {
+    console.warn("[i18n] Could not read device locales:", error);
+    return DEFAULT_LOCALE;
+  }
+};
@@ -0,0 +1,83 @@
+import type { StringBundle } from "./en";
+
+export const de: StringBundle = {
+  "language.label": "Sprache",
+
+  "welcome.tapToContinue": "tippe auf den Bildschirm, um fortzufahren",
+  "welcome.volumeOn": "TON AN",
+  "welcome.namePlaceholder": "Vor- und Nachname",
+  "welcome.submit": "Weiter",
+  "welcome.processing": "Wird verarbeitet...",
+  "welcome.holdToTalk": "Gedrückt halten und Namen sagen",
+  "welcome.listening": "Ich höre zu...",
+  "welcome.transcribing": "Dein Name wird erkannt...",
+  "welcome.confirmName": "Stimmt das? Korrigiere ihn bei Bedarf und tippe dann auf Weiter.",
+  "welcome.nameNotHeard": "Das habe ich leider nicht verstanden. Versuch es noch einmal oder tippe deinen Namen ein.",
+  "welcome.micDenied": "Der Mikrofonzugriff ist deaktiviert, bitte tippe deinen Namen ein.",
+  "welcome.spokenNameLabel": "Wie soll Tava ihn aussprechen?",
+  "welcome.spokenNameHint": "Schreib ihn so, wie er klingt, falls die Aussprache nicht stimmt",
+  "welcome.hearSpokenName": "Anhören",
+
+  "name.error.empty": "Bitte gib deinen Namen ein.",
+  "name.error.tooLong": "Dieser Name ist zu lang.",
+  "name.error.invalid": "Das sieht nicht wie ein Name aus.",
+  "name.error.profanity": "Bitte verwende deinen echten Namen.",
+
+  "narration.pause": "Pause",
+  "narration.resume": "Fortsetzen",
+  "narration.replay": "Satz wiederholen",
+  "narration.skip": "Überspringen",
+  "narration.speed": "Wiedergabegeschwindigkeit",
+
+  "resume.titleWithName": "Willkommen zurück, {firstName}",
+  "resume.title": "Willkommen zurück",
+  "resume.body": "Mach dort weiter, wo du aufgehört hast, oder starte die Einrichtung noch einmal von vorn.",
+  "resume.continue": "Fortfahren",
+  "resume.startOver": "Neu beginnen",
+
+  "avatar.accept": "Übernehmen",
+  "avatar.change": "Avatar ändern",
+  "avatar.previous": "Deine Avatare",
+  "avatar.tapToContinue": "tippe auf den Bildschirm, um fortzufahren",
+  "avatar.fallbackName": "du",
+  "avatar.creatorLoading": "Avatar-Editor wird geladen...",
+  "avatar.creatorError": "Der Avatar-Editor konnte nicht geladen werden. Prüfe deine Verbindung und versuch es noch einmal.",
+  "avatar.creatorRetry": "Erneut versuchen",
+
+  "training.title": "Trainiere deinen Agenten",
+  "training.subtitle": "Alles, was du hier schreibst, ist das Wissen deines Agenten. Sei so ausführlich wie möglich.",
+  "training.savedAt": "Gespeichert um {time}",
+  "training.autosaveHint": "Änderungen werden automatisch gespeichert",
+  "training.notes": "Notizen",
+  "training.noteTitlePlaceholder": "Titel der Notiz",
+  "training.noteContentPlaceholder": "Alles, was dein Agent sonst noch wissen sollte",
+  "training.removeNote": "Entfernen",
+  "training.addNote": "+ Notiz hinzufügen",
+  "training.untitledNote": "Notiz {number}",
+  "training.finish": "Training abschließen",
+  "training.section.companyOverview.title": "Unternehmensüberblick",
+  "training.section.companyOverview.placeholder":
+    "Was macht dein Unternehmen, für wen ist es da und was unterscheidet es von anderen?",
+  "training.section.products.title": "Produkte & Leistungen",
+  "training.section.products.placeholder": "Was verkaufst du? Nenne die wichtigsten Funktionen und Vorteile.",
+  "training.section.pricing.title": "Preise",
+  "training.section.pricing.placeholder":
+    "Tarife, Preise, Rabatte, Zahlungsbedingungen und alles, was der Agent nennen darf.",
+  "training.section.faqs.title": "Häufige Fragen",
+  "training.section.faqs.placeholder": "Fragen, die Kunden oft stellen, und wie du sie beantwortest.",
+  "training.section.toneOfVoice.title": "Tonfall",
+  "training.section.toneOfVoice.placeholder":
+    "Wie soll dein Agent klingen? Förmlich, verspielt, knapp? Welche Wörter soll er verwenden oder meiden?",
+
+  "chat.title": "Teste deinen Agenten",
+  "chat.trainMore": "Weiter trainieren",
+  "chat.startOver": "Neu beginnen",
+  "chat.greeting": "Hallo! Frag mich, was ein Kunde fragen würde, und ich antworte mit dem, was du mir beigebracht hast.",
+  "chat.greetingWithName":
+    "Hallo {firstName}! Frag mich, was ein Kunde fragen würde, und ich antworte mit dem, was du mir beigebracht hast.",
+  "chat.placeholder": "Stell deinem Agenten eine Frage",
+  "chat.send": "Senden",
+  "chat.error": "Das konnte ich gerade leider nicht beantworten. Bitte versuch es noch einmal.",
+  "chat.unknownAnswer":
+    "Das weiß ich noch nicht. Es kommt in meinem Training nicht vor. Ergänze es im Trainingsbereich, dann kann ich antworten.",
+};
@@ -0,0 +1,84 @@
+// English UI copy, and the set of keys every other bundle must translate
+export const en = {
+  "language.label": "Language",
+
+  "welcome.tapToContinue": "click the screen to continue",
+  "welcome.volumeOn": "VOLUME ON",
+  "welcome.namePlaceholder": "First and Last Name",
+  "welcome.submit": "Enter",
+  "welcome.processing": "Processing...",
+  "welcome.holdToTalk": "Hold to say your name",
+  "welcome.listening": "Listening...",
+  "welcome.transcribing": "Getting your name...",
+  "welcome.confirmName": "Is that right? Fix it if needed, then press Enter.",
+  "welcome.nameNotHeard": "Sorry, I didn't catch that. Try again or type your name.",
+  "welcome.micDenied": "Microphone access is off, so type your name instead.",
+  "welcome.spokenNameLabel": "How should Tava say it?",
+  "welcome.spokenNameHint": "Spell it the way it sounds if it comes out wrong",
+  "welcome.hearSpokenName": "Hear it",
+
+  "name.error.empty": "Please enter your name.",
+  "name.error.tooLong": "That name is too long.",
+  "name.error.invalid": "That doesn't look like a name.",
+  "name.error.profanity": "Please use your real name.",
+
+  "narration.pause": "Pause",
+  "narration.resume": "Resume",
+  "narration.replay": "Replay line",
+  "narration.skip": "Skip",
+  "narration.speed": "Playback speed",
+
+  "resume.titleWithName": "Welcome back, {firstName}",
+  "resume.title": "Welcome back",
+  "resume.body": "Pick up where you left off, or start the setup again from the beginning.",
+  "resume.continue": "Continue",
+  "resume.startOver": "Start over",
+
+  "avatar.accept": "Accept",
+  "avatar.change": "Change Avatar",
+  "avatar.previous": "Your avatars",
+  "avatar.tapToContinue": "click the screen to continue",
+  "avatar.fallbackName": "there",
+  "avatar.creatorLoading": "Loading avatar creator...",
+  "avatar.creatorError": "The avatar creator couldn't be loaded. Check your connection and try again.",
+  "avatar.creatorRetry": "Try again",
+
+  "training.title": "Train your agent",
+  "training.subtitle": "Everything you write here is what your agent knows. Be as detailed as you can.",
+  "training.savedAt": "Saved {time}",
+  "training.autosaveHint": "Changes are saved automatically",
+  "training.notes": "Notes",
+  "training.noteTitlePlaceholder": "Note title",
+  "training.noteContentPlaceholder": "Anything else your agent should know",
+  "training.removeNote": "Remove",
+  "training.addNote": "+ Add note",
+  "training.untitledNote": "Note {number}",
+  "training.finish": "Finish training",
+  "training.section.companyOverview.title": "Company overview",
+  "training.section.companyOverview.placeholder":
+    "What does your company do, who is it for, and what makes it different?",
+  "training.section.products.title": "Products & services",
+  "training.section.products.placeholder": "List what you sell, with the key features and benefits of each.",
+  "training.section.pricing.title": "Pricing",
+  "training.section.pricing.placeholder": "Plans, prices, discounts, payment terms and anything the agent may quote.",
+  "training.section.faqs.title": "FAQs",
+  "training.section.faqs.placeholder": "Questions customers often ask, and how you answer them.",
+  "training.section.toneOfVoice.title": "Tone of voice",
+  "training.section.toneOfVoice.placeholder":
+    "How should your agent sound? Formal, playful, concise? Words to use or avoid?",
+
+  "chat.title": "Test your agent",
+  "chat.trainMore": "Train more",
+  "chat.startOver": "Start over",
+  "chat.greeting": "Hi! Ask me anything a customer might ask, and I'll answer from what you taught me.",
+  "chat.greetingWithName": "Hi {firstName}! Ask me anything a customer might ask, and I'll answer from what you taught me.",
+  "chat.placeholder": "Ask your agent a question",
+  "chat.send": "Send",
+  "chat.error": "Sorry, I couldn't answer that right now. Please try again.",
+  "chat.unknownAnswer":
+    "I don't know that yet. It isn't covered in my training, so add it in the training workspace and I'll be able to answer.",
+};
+
+export type StringKey = keyof typeof en;
+
+export type StringBundle = Record<StringKey, string>;
@@ -0,0 +1,82 @@
+import type { StringBundle } from "./en";
+
+export const es: StringBundle = {
+  "language.label": "Idioma",
+
+  "welcome.tapToContinue": "toca la pantalla para continuar",
+  "welcome.volumeOn": "SUBE EL VOLUMEN",
+  "welcome.namePlaceholder": "Nombre y apellido",
+  "welcome.submit": "Entrar",
+  "welcome.processing": "Procesando...",
+  "welcome.holdToTalk": "Mantén pulsado para decir tu nombre",
+  "welcome.listening": "Escuchando...",
+  "welcome.transcribing": "Reconociendo tu nombre...",
+  "welcome.confirmName": "¿Es correcto? Corrígelo si hace falta y pulsa Entrar.",
+  "welcome.nameNotHeard": "Lo siento, no te he entendido. Inténtalo de nuevo o escribe tu nombre.",
+  "welcome.micDenied": "El acceso al micrófono está desactivado, así que escribe tu nombre.",
+  "welcome.spokenNameLabel": "¿Cómo debe pronunciarlo Tava?",
+  "welcome.spokenNameHint": "Escríbelo como suena si la pronunciación no es correcta",
+  "welcome.hearSpokenName": "Escuchar",
+
+  "name.error.empty": "Escribe tu nombre.",
+  "name.error.tooLong": "Ese nombre es demasiado largo.",
+  "name.error.invalid": "Eso no parece un nombre.",
+  "name.error.profanity": "Usa tu nombre real.",
+
+  "narration.pause": "Pausa",
+  "narration.resume": "Reanudar",
+  "narration.replay": "Repetir frase",
+  "narration.skip": "Saltar",
+  "narration.speed": "Velocidad de reproducción",
+
+  "resume.titleWithName": "Hola de nuevo, {firstName}",
+  "resume.title": "Hola de nuevo",
+  "resume.body": "Continúa donde lo dejaste o vuelve a empezar la configuración desde el principio.",
+  "resume.continue": "Continuar",
+  "resume.startOver": "Empezar de nuevo",
+
+  "avatar.accept": "Aceptar",
+  "avatar.change": "Cambiar avatar",
+  "avatar.previous": "Tus avatares",
+  "avatar.tapToContinue": "toca la pantalla para continuar",
+  "avatar.fallbackName": "amigo",
+  "avatar.creatorLoading": "Cargando el editor de avatares...",
+  "avatar.creatorError": "No se pudo cargar el editor de avatares. Comprueba tu conexión e inténtalo de nuevo.",
+  "avatar.creatorRetry": "Reintentar",
+
+  "training.title": "Entrena a tu agente",
+  "training.subtitle": "Todo lo que escribas aquí es lo que sabe tu agente. Da todos los detalles que puedas.",
+  "training.savedAt": "Guardado a las {time}",
+  "training.autosaveHint": "Los cambios se guardan automáticamente",
+  "training.notes": "Notas",
+  "training.noteTitlePlaceholder": "Título de la nota",
+  "training.noteContentPlaceholder": "Cualquier otra cosa que tu agente deba saber",
+  "training.removeNote": "Eliminar",
+  "training.addNote": "+ Añadir nota",
+  "training.untitledNote": "Nota {number}",
+  "training.finish": "Terminar el entrenamiento",
+  "training.section.companyOverview.title": "Resumen de la empresa",
+  "training.section.companyOverview.placeholder": "¿Qué hace tu empresa, para quién es y qué la hace diferente?",
+  "training.section.products.title": "Productos y servicios",
+  "training.section.products.placeholder": "Enumera lo que vendes, con las características y ventajas clave de cada cosa.",
+  "training.section.pricing.title": "Precios",
+  "training.section.pricing.placeholder":
+    "Planes, precios, descuentos, condiciones de pago y todo lo que el agente pueda ofrecer.",
+  "training.section.faqs.title": "Preguntas frecuentes",
+  "training.section.faqs.placeholder": "Preguntas que los clientes hacen a menudo y cómo las respondes.",
+  "training.section.toneOfVoice.title": "Tono de voz",
+  "training.section.toneOfVoice.placeholder":
+    "¿Cómo debe sonar tu agente? ¿Formal, divertido, conciso? ¿Palabras que usar o evitar?",
+
+  "chat.title": "Prueba a tu agente",
+  "chat.trainMore": "Entrenar más",
+  "chat.startOver": "Empezar de nuevo",
+  "chat.greeting": "¡Hola! Pregúntame lo que preguntaría un cliente y responderé con lo que me has enseñado.",
+  "chat.greetingWithName":
+    "¡Hola, {firstName}! Pregúntame lo que preguntaría un cliente y responderé con lo que me has enseñado.",
+  "chat.placeholder": "Hazle una pregunta a tu agente",
+  "chat.send": "Enviar",
+  "chat.error": "Lo siento, ahora mismo no puedo responder. Inténtalo de nuevo.",
+  "chat.unknownAnswer":
+    "Todavía no lo sé. No forma parte de mi entrenamiento; añádelo en el espacio de entrenamiento y podré responder.",
+};
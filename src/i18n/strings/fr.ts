@@ -0,0 +1,85 @@
+import type { StringBundle } from "./en";
+
+export const fr: StringBundle = {
+  "language.label": "Langue",
+
+  "welcome.tapToContinue": "touchez l'écran pour continuer",
+  "welcome.volumeOn": "MONTEZ LE SON",
+  "welcome.namePlaceholder": "Prénom et nom",
+  "welcome.submit": "Valider",
+  "welcome.processing": "Traitement...",
+  "welcome.holdToTalk": "Maintenez pour dire votre nom",
+  "welcome.listening": "Je vous écoute...",
+  "welcome.transcribing": "Reconnaissance de votre nom...",
+  "welcome.confirmName": "Est-ce correct ? Corrigez-le si besoin, puis appuyez sur Valider.",
+  "welcome.nameNotHeard": "Désolée, je n'ai pas compris. Réessayez ou saisissez votre nom.",
+  "welcome.micDenied": "L'accès au micro est désactivé, saisissez plutôt votre nom.",
+  "welcome.spokenNameLabel": "Comment Tava doit-elle le prononcer ?",
+  "welcome.spokenNameHint": "Écrivez-le comme il se prononce si la prononciation est incorrecte",
+  "welcome.hearSpokenName": "Écouter",
+
+  "name.error.empty": "Veuillez saisir votre nom.",
+  "name.error.tooLong": "Ce nom est trop long.",
+  "name.error.invalid": "Cela ne ressemble pas à un nom.",
+  "name.error.profanity": "Veuillez utiliser votre vrai nom.",
+
+  "narration.pause": "Pause",
+  "narration.resume": "Reprendre",
+  "narration.replay": "Réécouter la phrase",
+  "narration.skip": "Passer",
+  "narration.speed": "Vitesse de lecture",
+
+  "resume.titleWithName": "Bon retour, {firstName}",
+  "resume.title": "Bon retour",
+  "resume.body": "Reprenez là où vous vous étiez arrêté, ou recommencez la configuration depuis le début.",
+  "resume.continue": "Continuer",
+  "resume.startOver": "Recommencer",
+
+  "avatar.accept": "Accepter",
+  "avatar.change": "Changer d'avatar",
+  "avatar.previous": "Vos avatars",
+  "avatar.tapToContinue": "touchez l'écran pour continuer",
+  "avatar.fallbackName": "à vous",
+  "avatar.creatorLoading": "Chargement de l'éditeur d'avatar...",
+  "avatar.creatorError": "Impossible de charger l'éditeur d'avatar. Vérifiez votre connexion et réessayez.",
+  "avatar.creatorRetry": "Réessayer",
+
+  "training.title": "Entraînez votre agent",
+  "training.subtitle": "Tout ce que vous écrivez ici constitue les connaissances de votre agent. Soyez aussi précis que possible.",
+  "training.savedAt": "Enregistré à {time}",
+  "training.autosaveHint": "Les modifications sont enregistrées automatiquement",
+  "training.notes": "Notes",
+  "training.noteTitlePlaceholder": "Titre de la note",
+  "training.noteContentPlaceholder": "Tout ce que votre agent devrait savoir d'autre",
+  "training.removeNote": "Supprimer",
+  "training.addNote": "+ Ajouter une note",
+  "training.untitledNote": "Note {number}",
+  "training.finish": "Terminer l'entraînement",
+  "training.section.companyOverview.title": "Présentation de l'entreprise",
+  "training.section.companyOverview.placeholder":
+    "Que fait votre entreprise, pour qui, et qu'est-ce qui la distingue ?",
+  "training.section.products.title": "Produits et services",
+  "training.section.products.placeholder":
+    "Listez ce que vous vendez, avec les principales caractéristiques et avantages de chaque offre.",
+  "training.section.pricing.title": "Tarifs",
+  "training.section.pricing.placeholder":
+    "Formules, prix, remises, conditions de paiement et tout ce que l'agent peut annoncer.",
+  "training.section.faqs.title": "Questions fréquentes",
+  "training.section.faqs.placeholder": "Les questions que vos clients posent souvent, et vos réponses.",
+  "training.section.toneOfVoice.title": "Ton",
+  "training.section.toneOfVoice.placeholder":
+    "Comment votre agent doit-il s'exprimer ? Formel, enjoué, concis ? Des mots à utiliser ou à éviter ?",
+
+  "chat.title": "Testez votre agent",
+  "chat.trainMore": "Entraîner encore",
+  "chat.startOver": "Recommencer",
+  "chat.greeting":
+    "Bonjour ! Posez-moi les questions d'un client, je répondrai à partir de ce que vous m'avez appris.",
+  "chat.greetingWithName":
+    "Bonjour {firstName} ! Posez-moi les questions d'un client, je répondrai à partir de ce que vous m'avez appris.",
+  "chat.placeholder": "Posez une question à votre agent",
+  "chat.send": "Envoyer",
+  "chat.error": "Désolé, je ne peux pas répondre pour le moment. Veuillez réessayer.",
+  "chat.unknownAnswer":
+    "Je ne le sais pas encore. Ce n'est pas couvert par mon entraînement : ajoutez-le dans l'espace d'entraînement et je pourrai répondre.",
+};
@@ -1,2 +1,5 @@
-export type { AvatarCreatorConfig, Language, BodyType, IFrameEvent } from './types';
-export type * from './events';
+export type { AvatarCreatorConfig, Language, BodyType, Gender, IFrameEvent } from './types';
+export { buildAvatarCreatorUrl, useAvatarCreatorUrl } from './hooks/use-avatar-creator-url';
+export * from './events';
+export { default as AvatarCreator } from './components/AvatarCreator';
+export type { AvatarCreatorProps } from './components/AvatarCreator';
@@ -0,0 +1,56 @@
+export interface ChunkingOptions {
+  maxChars: number;
+  overlapChars: number;
+}
+
+const DEFAULT_OPTIONS: ChunkingOptions = {
+  maxChars: 800,
+  overlapChars: 120,
+};
+
+// Sentence-ish pieces, keeping the terminator with its sentence
+const splitSentences = (paragraph: string) => paragraph.match(/[^.!?]+[.!?]*\s*/g)?.map((s) => s.trim()) ?? [];
+
+/**
+ * Split a document into overlapping chunks for embedding
+ * Paragraph and sentence boundaries are preferred; only a single oversized sentence is cut mid-text.
+ * @param text - The document content
+ * @param options - Maximum chunk length and how much trailing text to repeat at the start of the next chunk
+ */
+export const chunkText = (text: string, options?: Partial<ChunkingOptions>): string[] => {
+  const { maxChars, overlapChars } = { ...DEFAULT_OPTIONS, ...options };
+  const pieces = text
+    .split(/\n\s*\n/)
+    .flatMap((paragraph) => splitSentences(paragraph.replace(/\s+/g, " ")))
+    .flatMap((sentence) => {
+      if (sentence.length <= maxChars) return [sentence];
+      const parts: string[] = [];
+      for (let i = 0; i < sentence.length; i += maxChars) {
+        parts.push(sentence.slice(i, i + maxChars));
+      }
+      return parts;
+    })
+    .filter(Boolean);
+
+  const chunks: string[] = [];
+  let current = "";
+
+  for (const piece of pieces) {
+    const candidate = current ? `${current} ${piece}` : piece;
+    if (candidate.length > maxChars && current) {
+      chunks.push(current);
+      const overlap = current.slice(-overlapChars);
+      // Start the overlap on a word boundary
+      const overlapStart = overlap.indexOf(" ");
+      current = overlapStart === -1 ? piece : `${overlap.slice(overlapStart + 1)} ${piece}`;
+    } else {
+      current = candidate;
+    }
+  }
+
+  if (current) {
+    chunks.push(current);
+  }
+
+  return chunks;
+};
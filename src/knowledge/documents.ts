@@ -0,0 +1,28 @@
+import { translate } from "../i18n";
+import useKnowledgeStore, { KNOWLEDGE_SECTIONS } from "../state/knowledgeStore";
+import type { KnowledgeDocument } from "./types";
+
+type KnowledgeStoreState = ReturnType<typeof useKnowledgeStore.getState>;
+
+/**
+ * Turn what the user entered in the training workspace into indexable documents
+ * Each structured section and each note is its own document, so citations point at something the user recognizes.
+ * Section titles are in the current language, matching the workspace.
+ */
+export const getKnowledgeDocuments = (state: KnowledgeStoreState): KnowledgeDocument[] => {
+  const sections: KnowledgeDocument[] = KNOWLEDGE_SECTIONS.map((section) => ({
+    id: `section:${section.id}`,
+    kind: "section",
+    title: translate(`training.section.${section.id}.title`),
+    content: state.sections[section.id]?.content ?? "",
+  }));
+
+  const notes: KnowledgeDocument[] = state.notes.map((note, index) => ({
+    id: `note:${note.id}`,
+    kind: "note",
+    title: note.title.trim() || translate("training.untitledNote", { number: String(index + 1) }),
+    content: note.content,
+  }));
+
+  return [...sections, ...notes].filter((document) => document.content.trim());
+};
@@ -0,0 +1,80 @@
+import { getOpenAIClient } from "../api/openai";
+import { recordUsage } from "../usage";
+
+/**
+ * Turns text into vectors for similarity search
+ * The id is stored with every vector, so switching providers triggers a full re-index.
+ */
+export interface EmbeddingProvider {
+  id: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Embeddings from the OpenAI API
+ * @param model - The embedding model to use
+ */
+export const createOpenAIEmbeddingProvider = (model = "text-embedding-3-small"): EmbeddingProvider => ({
+  id: `openai:${model}`,
+  embed: async (texts) => {
+    if (texts.length === 0) return [];
+    try {
+      const client = getOpenAIClient();
+      const response = await client.embeddings.create({ model, input: texts });
+      recordUsage({
+        kind: "embedding",
+        provider: "openai",
+        model,
+        feature: "knowledgeIndexing",
+        inputTokens: response.usage?.prompt_tokens || 0,
+      });
+      return response.data.sort((a, b) => a.index - b.index).map((item) => item.embedding);
+    } catch (error) {
+      console.error("OpenAI Embeddings Error:", error);
+      throw error;
+    }
+  },
+});
+
+// FNV-1a, small and stable across platforms
+const hashToken = (token: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Deterministic bag-of-words embeddings computed on device
+ * No network or API key needed, which makes it a stand-in for tests and offline development.
+ * Only matches shared words, so retrieval quality is far below a real embedding model.
+ * @param dimensions - Vector length
+ */
+export const createHashingEmbeddingProvider = (dimensions = 256): EmbeddingProvider => ({
+  id: `hashing:${dimensions}`,
+  embed: async (texts) =>
+    texts.map((text) => {
+      const vector = new Array<number>(dimensions).fill(0);
+      const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+      for (const token of tokens) {
+        const hash = hashToken(token);
+        // The top bit picks the sign so collisions tend to cancel out
+        vector[hash % dimensions] += hash & 0x80000000 ? -1 : 1;
+      }
+      return vector;
+    }),
+});
+
+export const cosineSimilarity = (a: number[], b: number[]) => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
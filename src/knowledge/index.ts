@@ -0,0 +1,83 @@
+import useKnowledgeStore from "../state/knowledgeStore";
+import { createKnowledgeBase } from "./knowledge-base";
+import { createOpenAIEmbeddingProvider } from "./embeddings";
+import { createFileVectorStore } from "./vector-store";
+import { getKnowledgeDocuments } from "./documents";
+
+export type * from "./types";
+export { chunkText } from "./chunking";
+export { createOpenAIEmbeddingProvider, createHashingEmbeddingProvider, cosineSimilarity } from "./embeddings";
+export type { EmbeddingProvider } from "./embeddings";
+export { createFileVectorStore, createMemoryVectorStore } from "./vector-store";
+export type { VectorStore } from "./vector-store";
+export { createKnowledgeBase } from "./knowledge-base";
+export type { KnowledgeBase } from "./knowledge-base";
+export { getKnowledgeDocuments } from "./documents";
+
+// The agent's knowledge base, indexed from the training workspace
+export const knowledgeBase = createKnowledgeBase({
+  provider: createOpenAIEmbeddingProvider(),
+  store: createFileVectorStore("knowledge-index.json"),
+});
+
+// Syncs run one after another, so a forced sync waits for any indexing already under way
+let indexing: Promise<void> = Promise.resolve();
+
+const queueSync = () => {
+  const documents = getKnowledgeDocuments(useKnowledgeStore.getState());
+  indexing = indexing
+    .then(() => knowledgeBase.syncDocuments(documents))
+    .catch((error) => console.warn("[Knowledge] Indexing failed:", error));
+  return indexing;
+};
+
+/**
+ * Index the training workspace as it is now, without waiting for the watcher's debounce
+ * Call before searching right after an edit, e.g. the first question once training is finished.
+ * Indexing failures are logged rather than thrown, leaving the previous index in place.
+ */
+export const syncKnowledgeIndex = async () => {
+  // Syncing before the workspace is loaded would drop every document from the index
+  if (!useKnowledgeStore.persist.hasHydrated()) {
+    await new Promise<void>((resolve) => {
+      const unsubscribe = useKnowledgeStore.persist.onFinishHydration(() => {
+        unsubscribe();
+        resolve();
+      });
+    });
+  }
+  await queueSync();
+};
+
+/**
+ * Re-index the knowledge base whenever the training workspace changes
+ * Edits are batched, and only documents whose content changed are re-embedded.
+ * @param delayMs - How long to wait for edits to settle before indexing
+ * @returns A function that stops watching
+ */
+export const watchKnowledgeStore = (delayMs = 2000) => {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const sync = () => {
+    timer = null;
+    queueSync();
+  };
+
+  const schedule = () => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(sync, delayMs);
+  };
+
+  // Catch up on anything edited while the app wasn't watching
+  if (useKnowledgeStore.persist.hasHydrated()) {
+    schedule();
+  }
+  const unsubscribeHydration = useKnowledgeStore.persist.onFinishHydration(schedule);
+  const unsubscribe = useKnowledgeStore.subscribe(schedule);
+
+  return () => {
+    if (timer) clearTimeout(timer);
+    unsubscribeHydration();
+    unsubscribe();
+  };
+};
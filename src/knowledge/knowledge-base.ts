@@ -0,0 +1,102 @@
+import * as Crypto from "expo-crypto";
+import { chunkText, ChunkingOptions } from "./chunking";
+import { cosineSimilarity, EmbeddingProvider } from "./embeddings";
+import type { KnowledgeChunk, KnowledgeDocument, KnowledgeSearchResult } from "./types";
+import type { VectorStore } from "./vector-store";
+
+export interface KnowledgeBase {
+  indexDocument(document: KnowledgeDocument): Promise<void>;
+  removeDocument(documentId: string): Promise<void>;
+  syncDocuments(documents: KnowledgeDocument[]): Promise<void>;
+  search(query: string, options?: { topK?: number; minScore?: number }): Promise<KnowledgeSearchResult[]>;
+}
+
+interface KnowledgeBaseOptions {
+  provider: EmbeddingProvider;
+  store: VectorStore;
+  chunking?: Partial<ChunkingOptions>;
+}
+
+const hashDocument = (document: KnowledgeDocument) => {
+  return Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `${document.title}\n${document.content}`);
+};
+
+/**
+ * Create a knowledge base that chunks, embeds, stores and searches documents
+ * Documents are only re-embedded when their title or content changes.
+ */
+export const createKnowledgeBase = ({ provider, store, chunking }: KnowledgeBaseOptions): KnowledgeBase => {
+  // Vectors from different providers aren't comparable, so a provider change clears the index
+  let ready: Promise<void> | null = null;
+  const ensureProvider = () => {
+    if (!ready) {
+      ready = (async () => {
+        if ((await store.getProviderId()) !== provider.id) {
+          await store.reset(provider.id);
+        }
+      })();
+    }
+    return ready;
+  };
+
+  const indexDocument = async (document: KnowledgeDocument) => {
+    await ensureProvider();
+
+    const contentHash = await hashDocument(document);
+    if ((await store.getContentHash(document.id)) === contentHash) return;
+
+    if (!document.content.trim()) {
+      await store.removeDocument(document.id);
+      return;
+    }
+
+    // The title is embedded with each chunk so "pricing" questions find the pricing section
+    const texts = chunkText(document.content, chunking);
+    const vectors = await provider.embed(texts.map((text) => `${document.title}\n${text}`));
+    const chunks: KnowledgeChunk[] = texts.map((text, index) => ({
+      id: `${document.id}:${index}`,
+      source: { documentId: document.id, kind: document.kind, title: document.title },
+      index,
+      text,
+      vector: vectors[index],
+    }));
+
+    await store.upsertDocument(document.id, contentHash, chunks);
+  };
+
+  const removeDocument = async (documentId: string) => {
+    await ensureProvider();
+    await store.removeDocument(documentId);
+  };
+
+  const syncDocuments = async (documents: KnowledgeDocument[]) => {
+    await ensureProvider();
+
+    const currentIds = new Set(documents.map((document) => document.id));
+    for (const documentId of await store.getDocumentIds()) {
+      if (!currentIds.has(documentId)) {
+        await store.removeDocument(documentId);
+      }
+    }
+
+    for (const document of documents) {
+      await indexDocument(document);
+    }
+  };
+
+  const search = async (query: string, options?: { topK?: number; minScore?: number }) => {
+    await ensureProvider();
+
+    const { topK = 5, minScore = 0 } = options ?? {};
+    const [queryVector] = await provider.embed([query]);
+    const chunks = await store.getChunks();
+
+    return chunks
+      .map((chunk) => ({ chunk, score: cosineSimilarity(queryVector, chunk.vector) }))
+      .filter((result) => result.score >= minScore)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  };
+
+  return { indexDocument, removeDocument, syncDocuments, search };
+};
@@ -0,0 +1,30 @@
+export type KnowledgeDocumentKind = "section" | "note";
+
+/**
+ * A piece of source material the agent can retrieve from, e.g. the pricing section or a free-form note
+ */
+export interface KnowledgeDocument {
+  id: string;
+  kind: KnowledgeDocumentKind;
+  title: string;
+  content: string;
+}
+
+export interface KnowledgeSource {
+  documentId: string;
+  kind: KnowledgeDocumentKind;
+  title: string;
+}
+
+export interface KnowledgeChunk {
+  id: string;
+  source: KnowledgeSource;
+  index: number;
+  text: string;
+  vector: number[];
+}
+
+export interface KnowledgeSearchResult {
+  chunk: KnowledgeChunk;
+  score: number;
+}
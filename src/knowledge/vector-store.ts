@@ -0,0 +1,107 @@
+import * as FileSystem from "expo-file-system";
+import type { KnowledgeChunk } from "./types";
+
+interface StoredDocument {
+  contentHash: string;
+  chunks: KnowledgeChunk[];
+}
+
+interface VectorStoreData {
+  version: 1;
+  providerId: string | null;
+  documents: Record<string, StoredDocument>;
+}
+
+export interface VectorStore {
+  getProviderId(): Promise<string | null>;
+  getContentHash(documentId: string): Promise<string | null>;
+  getDocumentIds(): Promise<string[]>;
+  getChunks(): Promise<KnowledgeChunk[]>;
+  upsertDocument(documentId: string, contentHash: string, chunks: KnowledgeChunk[]): Promise<void>;
+  removeDocument(documentId: string): Promise<void>;
+  reset(providerId: string): Promise<void>;
+}
+
+const emptyData = (providerId: string | null): VectorStoreData => ({ version: 1, providerId, documents: {} });
+
+/**
+ * Create a vector store persisted as a JSON file in the app's document directory
+ * Everything is held in memory after the first read; knowledge bases here are small enough for a linear scan.
+ * @param fileName - File name inside FileSystem.documentDirectory
+ */
+export const createFileVectorStore = (fileName: string): VectorStore => {
+  const fileUri = `${FileSystem.documentDirectory}${fileName}`;
+  let dataPromise: Promise<VectorStoreData> | null = null;
+  // Writes are chained so concurrent updates never interleave
+  let writeQueue: Promise<void> = Promise.resolve();
+
+  const load = () => {
+    if (!dataPromise) {
+      dataPromise = (async () => {
+        try {
+          const parsed = JSON.parse(await FileSystem.readAsStringAsync(fileUri)) as VectorStoreData;
+          if (parsed?.version === 1 && parsed.documents) {
+            return parsed;
+          }
+        } catch {
+          // Missing or corrupt file, start fresh
+        }
+        return emptyData(null);
+      })();
+    }
+    return dataPromise;
+  };
+
+  const save = (data: VectorStoreData) => {
+    writeQueue = writeQueue
+      .then(() => FileSystem.writeAsStringAsync(fileUri, JSON.stringify(data)))
+      .catch((error) => console.warn("[VectorStore] Could not save:", error));
+    return writeQueue;
+  };
+
+  return {
+    getProviderId: async () => (await load()).providerId,
+    getContentHash: async (documentId) => (await load()).documents[documentId]?.contentHash ?? null,
+    getDocumentIds: async () => Object.keys((await load()).documents),
+    getChunks: async () => Object.values((await load()).documents).flatMap((document) => document.chunks),
+    upsertDocument: async (documentId, contentHash, chunks) => {
+      const data = await load();
+      data.documents[documentId] = { contentHash, chunks };
+      await save(data);
+    },
+    removeDocument: async (documentId) => {
+      const data = await load();
+      delete data.documents[documentId];
+      await save(data);
+    },
+    reset: async (providerId) => {
+      const data = await load();
+      data.providerId = providerId;
+      data.documents = {};
+      await save(data);
+    },
+  };
+};
+
+/**
+ * A vector store that only lives in memory, for tests and throwaway indexes
+ */
+export const createMemoryVectorStore = (): VectorStore => {
+  const data = emptyData(null);
+  return {
+    getProviderId: async () => data.providerId,
+    getContentHash: async (documentId) => data.documents[documentId]?.contentHash ?? null,
+    getDocumentIds: async () => Object.keys(data.documents),
+    getChunks: async () => Object.values(data.documents).flatMap((document) => document.chunks),
+    upsertDocument: async (documentId, contentHash, chunks) => {
+      data.documents[documentId] = { contentHash, chunks };
+    },
+    removeDocument: async (documentId) => {
+      delete data.documents[documentId];
+    },
+    reset: async (providerId) => {
+      data.providerId = providerId;
+      data.documents = {};
+    },
+  };
+};
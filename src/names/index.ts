@@ -0,0 +1,5 @@
+export type * from "./types";
+export { normalizeName, parseName } from "./parse";
+export { validateName, MAX_NAME_LENGTH } from "./validate";
+export { containsProfanity } from "./profanity";
+export { getSpokenName } from "./spoken";
@@ -0,0 +1,91 @@
+import type { PersonName } from "./types";
+
+// Honorifics dropped from the start of a name, in the supported languages
+// Titles that are also first names ("Don", "Dame", "Sir") are left out, so "Don Johnson" stays Don
+const TITLES = new Set([
+  "mr",
+  "mrs",
+  "ms",
+  "miss",
+  "mx",
+  "dr",
+  "prof",
+  "herr",
+  "frau",
+  "mme",
+  "mlle",
+  "sr",
+  "sra",
+  "srta",
+  "doña",
+]);
+
+// Generational and professional suffixes dropped from the end
+const SUFFIXES = new Set(["jr", "sr", "ii", "iii", "iv", "phd", "md", "esq"]);
+
+// Letters and marks, plus the apostrophes, hyphens and periods that names use
+const NAME_CHARACTERS = /[^\p{L}\p{M}'’.\- ]/gu;
+
+const bareWord = (word: string) => word.replace(/\./g, "").toLocaleLowerCase();
+
+const capitalize = (word: string) =>
+  word
+    .split("-")
+    .map((part) => part.charAt(0).toLocaleUpperCase() + part.slice(1).toLocaleLowerCase())
+    .join("-");
+
+/**
+ * Strip emoji, digits and symbols and collapse whitespace
+ * @param input - The name as typed or transcribed
+ */
+export const normalizeName = (input: string) =>
+  input.normalize("NFC").replace(NAME_CHARACTERS, " ").replace(/\s+/g, " ").trim();
+
+/**
+ * Split a name into given and family names
+ * Titles ("Dr.") and suffixes ("Jr.") are dropped, "Smith, Jane" is reordered, and names typed
+ * all in one case are capitalized; mixed case ("McDonald", "de la Cruz") is kept as typed.
+ * @param input - The name as typed or transcribed
+ * @returns The parsed name, or null if nothing name-like is left
+ */
+export const parseName = (input: string): PersonName | null => {
+  let normalized = input.normalize("NFC").trim();
+
+  // "Jane Smith, Jr." -> "Jane Smith", so the suffix isn't mistaken for a given name below
+  let comma = normalized.split(",");
+  const isSuffix = (segment: string) => {
+    const segmentWords = normalizeName(segment).split(" ").filter(Boolean);
+    return segmentWords.length > 0 && segmentWords.every((word) => SUFFIXES.has(bareWord(word)));
+  };
+  while (comma.length > 1 && isSuffix(comma[comma.length - 1])) comma = comma.slice(0, -1);
+
+  // "Smith, Jane" -> "Jane Smith"
+  if (comma.length === 2 && comma[0].trim() && comma[1].trim()) {
+    normalized = `${comma[1]} ${comma[0]}`;
+  } else {
+    normalized = comma.join(",");
+  }
+
+  let words = normalizeName(normalized)
+    .split(" ")
+    .filter((word) => /\p{L}/u.test(word));
+
+  while (words.length > 1 && TITLES.has(bareWord(words[0]))) words = words.slice(1);
+  while (words.length > 1 && SUFFIXES.has(bareWord(words[words.length - 1]))) words = words.slice(0, -1);
+  // Periods only belong on initials
+  words = words.map((word) => (/^\p{L}\.$/u.test(word) ? word : word.replace(/\./g, "")));
+
+  if (words.length === 0) return null;
+
+  const joined = words.join(" ");
+  if (joined === joined.toLocaleLowerCase() || joined === joined.toLocaleUpperCase()) {
+    words = words.map(capitalize);
+  }
+
+  const [givenName, ...rest] = words;
+  return {
+    fullName: words.join(" "),
+    givenName,
+    familyName: rest.length > 0 ? rest.join(" ") : undefined,
+  };
+};
@@ -0,0 +1,63 @@
+// Words that can't be used as a name, in the supported languages; matched as whole words after folding
+const BLOCKED_WORDS = new Set([
+  // English
+  "fuck",
+  "fucker",
+  "shit",
+  "bitch",
+  "cunt",
+  "cock",
+  "pussy",
+  "asshole",
+  "bastard",
+  "whore",
+  "slut",
+  "wanker",
+  "twat",
+  "penis",
+  "vagina",
+  // German
+  "scheisse",
+  "arschloch",
+  "fotze",
+  "wichser",
+  "hure",
+  "schlampe",
+  // French
+  "merde",
+  "putain",
+  "connard",
+  "salope",
+  "encule",
+  "bite",
+  // Spanish
+  "mierda",
+  "puta",
+  "puto",
+  "cabron",
+  "pendejo",
+  "cono",
+  "polla",
+]);
+
+// Digits and symbols commonly swapped in for letters
+const LEET: Record<string, string> = { "0": "o", "1": "i", "3": "e", "4": "a", "5": "s", "7": "t", "@": "a", $: "s" };
+
+// Lowercase, strip accents and undo leetspeak so "Sh1t" and "Scheiße" match
+const fold = (word: string) =>
+  word
+    .toLocaleLowerCase()
+    .replace(/ß/g, "ss")
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .replace(/[013457@$]/g, (char) => LEET[char]);
+
+/**
+ * Whether any word of the text is on the block list
+ * @param text - The raw input, before symbols are stripped, so leetspeak is still visible
+ */
+export const containsProfanity = (text: string) =>
+  text
+    .split(/[\s\-_.,'’]+/)
+    .map(fold)
+    .some((word) => BLOCKED_WORDS.has(word));
@@ -0,0 +1,26 @@
+import { containsProfanity } from "./profanity";
+import type { PersonName } from "./types";
+
+const MAX_SPOKEN_NAME_LENGTH = 60;
+
+/**
+ * The form of the name passed to text-to-speech
+ * Users can respell their name phonetically ("Sheh-vawn" for Siobhan) when the default is mispronounced.
+ * Resolve it where the name is spoken rather than storing the result, so a later name change isn't
+ * drowned out by the old given name.
+ * @param name - The parsed display name, or at least its given name
+ * @param override - The user's respelling, if any
+ * @returns The respelling if it is usable, otherwise the given name
+ */
+export const getSpokenName = (name: Pick<PersonName, "givenName">, override?: string) => {
+  const respelled = override
+    ?.normalize("NFC")
+    .replace(/[^\p{L}\p{M}'’\- ]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  if (!respelled || respelled.length > MAX_SPOKEN_NAME_LENGTH || containsProfanity(respelled)) {
+    return name.givenName;
+  }
+  return respelled;
+};
@@ -0,0 +1,13 @@
+/**
+ * A person's name as they want it shown
+ */
+export interface PersonName {
+  // Cleaned up, without titles or suffixes
+  fullName: string;
+  givenName: string;
+  familyName?: string;
+}
+
+export type NameValidationReason = "empty" | "tooLong" | "invalid" | "profanity";
+
+export type NameValidationResult = { valid: true; name: PersonName } | { valid: false; reason: NameValidationReason };
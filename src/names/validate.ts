@@ -0,0 +1,26 @@
+import { parseName } from "./parse";
+import { containsProfanity } from "./profanity";
+import type { NameValidationResult } from "./types";
+
+// Longer than anyone's real name, short enough to fit on one subtitle line
+export const MAX_NAME_LENGTH = 60;
+
+const MAX_NAME_WORDS = 6;
+
+/**
+ * Check a name before it is stored and spoken
+ * @param input - The name as typed or transcribed
+ * @returns The parsed name, or why it was rejected
+ */
+export const validateName = (input: string): NameValidationResult => {
+  if (!input.trim()) return { valid: false, reason: "empty" };
+  if (containsProfanity(input)) return { valid: false, reason: "profanity" };
+
+  const name = parseName(input);
+  if (!name) return { valid: false, reason: "invalid" };
+  if (name.fullName.length > MAX_NAME_LENGTH) return { valid: false, reason: "tooLong" };
+  if (name.fullName.split(" ").length > MAX_NAME_WORDS) return { valid: false, reason: "invalid" };
+  if (containsProfanity(name.fullName)) return { valid: false, reason: "profanity" };
+
+  return { valid: true, name };
+};
@@ -0,0 +1,5 @@
+export type * from "./types";
+export { NARRATION_SCRIPTS } from "./scripts";
+export type { NarrationKey } from "./scripts";
+export { getNarration, parsePauses } from "./narration";
+export type { NarrationVariables, GetNarrationOptions } from "./narration";
@@ -0,0 +1,81 @@
+import { interpolate, InterpolationVariables } from "../utils/interpolate";
+import { AppLocale, getLocale } from "../i18n";
+import { NARRATION_SCRIPTS, NarrationKey } from "./scripts";
+import { Narration, NarrationSegment } from "./types";
+import { de } from "./translations/de";
+import { fr } from "./translations/fr";
+import { es } from "./translations/es";
+
+// Translated copy by locale; voice and metadata always come from NARRATION_SCRIPTS
+const NARRATION_TRANSLATIONS: Partial<Record<AppLocale, Record<NarrationKey, string>>> = { de, fr, es };
+
+export type NarrationVariables = InterpolationVariables;
+
+const DEFAULT_PAUSE_MS = 600;
+
+const PAUSE_MARKER = /\s*\[pause(?::(\d+))?\]\s*/g;
+
+/**
+ * Split text into segments at its [pause] markers
+ * @param text - Text with optional [pause] or [pause:ms] markers
+ */
+export const parsePauses = (text: string): NarrationSegment[] => {
+  const segments: NarrationSegment[] = [];
+  let cursor = 0;
+
+  for (const match of text.matchAll(PAUSE_MARKER)) {
+    const segmentText = text.slice(cursor, match.index).trim();
+    const pauseMs = match[1] ? Number(match[1]) : DEFAULT_PAUSE_MS;
+    if (segmentText) {
+      segments.push({ text: segmentText, spokenText: segmentText, pauseAfterMs: pauseMs });
+    } else if (segments.length > 0) {
+      // Consecutive markers add up
+      segments[segments.length - 1].pauseAfterMs += pauseMs;
+    }
+    cursor = match.index + match[0].length;
+  }
+
+  const rest = text.slice(cursor).trim();
+  if (rest) {
+    segments.push({ text: rest, spokenText: rest, pauseAfterMs: 0 });
+  }
+
+  return segments;
+};
+
+export interface GetNarrationOptions {
+  // Language of the copy; defaults to the current locale, falling back to English
+  locale?: AppLocale;
+  // Replace variables in the spoken audio only, e.g. a phonetic spelling of the user's name
+  spokenVariables?: NarrationVariables;
+}
+
+/**
+ * Get a script from the catalog, ready to play
+ * @param key - The script's key in NARRATION_SCRIPTS
+ * @param variables - Values for the script's {name} placeholders
+ * @param options - Locale and spoken-only variable overrides
+ */
+export const getNarration = (
+  key: NarrationKey,
+  variables?: NarrationVariables,
+  { locale = getLocale(), spokenVariables }: GetNarrationOptions = {},
+): Narration => {
+  const script = NARRATION_SCRIPTS[key];
+  const template = NARRATION_TRANSLATIONS[locale]?.[key] ?? script.text;
+  // Split before interpolating so subtitles and audio always have the same segments
+  const segments = parsePauses(template).map((segment) => ({
+    ...segment,
+    text: interpolate(segment.text, variables),
+    spokenText: interpolate(segment.text, { ...variables, ...spokenVariables }),
+  }));
+
+  return {
+    key,
+    voice: script.voice,
+    skippable: script.skippable,
+    required: script.required,
+    text: segments.map((segment) => segment.text).join(" "),
+    segments,
+  };
+};
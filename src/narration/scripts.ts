@@ -0,0 +1,40 @@
+import type { NarrationScript } from "./types";
+
+/**
+ * Every line Tava and the avatar speak, by key, in English
+ * Copy can be edited here without touching the screens that play it; translations live in ./translations.
+ * - {name} placeholders are filled from the variables the screen passes in
+ * - [pause] inserts a short silence, [pause:800] one of that many milliseconds
+ */
+export const NARRATION_SCRIPTS = {
+  intro: {
+    text: "Hello builder, my name is Tava, I am an autonomous, multi-layered neural architecture capable of simulating human cognitive functions through deep learning algorithms and predictive modeling frameworks. My purpose is to enhance accuracy, efficiency, and innovation across digital systems.. or AI for short. [pause] What is your name?",
+    voice: "tava",
+    skippable: true,
+    required: false,
+    description: "Tava introduces itself after the countdown and asks for the user's name",
+  },
+  nameGreeting: {
+    text: "Nice to meet you {firstName}. I'm going to take you through the process of setting up your first digital sales agent. This process is quick and really fun! You will be able to customize your agent, train it on your business or brand, and send it off to find and close deals for you. [pause] Let's start with customizing your agent, your agent should be an extension of your business, much like how you birthed your business, in this case your business births the agent, let's begin.",
+    voice: "tava",
+    skippable: true,
+    required: false,
+    description: "Tava greets the user by name and explains the setup before avatar creation",
+  },
+  trainingIntro: {
+    text: "Your agent looks impressive, but it still needs a brain. What sets our agents apart is that each one is built by you in real time. From the moment it's created, it learns only from the information you provide, allowing it to become a perfectly tailored salesperson designed exclusively for your business. [pause] Now it's time to train your agent—teach it everything about your company and include as much detail as possible so it can truly represent your brand.",
+    voice: "tava",
+    skippable: true,
+    required: false,
+    description: "Tava explains training before the workspace opens",
+  },
+  avatarGreeting: {
+    text: "Hello {firstName}! Looking forward to working together!",
+    voice: "avatar",
+    skippable: false,
+    required: true,
+    description: "The accepted avatar greets the user in its own voice, with lip-sync",
+  },
+} satisfies Record<string, NarrationScript>;
+
+export type NarrationKey = keyof typeof NARRATION_SCRIPTS;
@@ -0,0 +1,11 @@
+import type { NarrationKey } from "../scripts";
+
+export const de: Record<NarrationKey, string> = {
+  intro:
+    "Hallo, Builder! Mein Name ist Tava. Ich bin eine autonome, mehrschichtige neuronale Architektur, die menschliche kognitive Funktionen mithilfe von Deep-Learning-Algorithmen und prädiktiven Modellierungsframeworks simuliert. Mein Ziel ist es, Genauigkeit, Effizienz und Innovation in digitalen Systemen zu steigern … kurz gesagt: KI. [pause] Wie heißt du?",
+  nameGreeting:
+    "Schön, dich kennenzulernen, {firstName}. Ich führe dich jetzt durch die Einrichtung deines ersten digitalen Vertriebsagenten. Das geht schnell und macht richtig Spaß! Du kannst deinen Agenten gestalten, ihn mit dem Wissen über dein Unternehmen oder deine Marke trainieren und ihn dann losschicken, um Geschäfte für dich zu finden und abzuschließen. [pause] Beginnen wir damit, deinen Agenten zu gestalten. Er sollte eine Verlängerung deines Unternehmens sein: So wie du dein Unternehmen ins Leben gerufen hast, bringt nun dein Unternehmen den Agenten hervor. Los geht's.",
+  trainingIntro:
+    "Dein Agent sieht beeindruckend aus, aber er braucht noch ein Gehirn. Das Besondere an unseren Agenten ist, dass jeder von dir in Echtzeit aufgebaut wird. Vom ersten Moment an lernt er ausschließlich aus den Informationen, die du ihm gibst, und wird so zu einem perfekt zugeschnittenen Verkäufer, der nur für dein Unternehmen arbeitet. [pause] Jetzt ist es Zeit, deinen Agenten zu trainieren. Bring ihm alles über dein Unternehmen bei, so ausführlich wie möglich, damit er deine Marke wirklich vertreten kann.",
+  avatarGreeting: "Hallo {firstName}! Ich freue mich auf unsere Zusammenarbeit!",
+};
@@ -0,0 +1,11 @@
+import type { NarrationKey } from "../scripts";
+
+export const es: Record<NarrationKey, string> = {
+  intro:
+    "Hola, creador. Me llamo Tava. Soy una arquitectura neuronal autónoma y multicapa, capaz de simular funciones cognitivas humanas mediante algoritmos de aprendizaje profundo y marcos de modelado predictivo. Mi propósito es mejorar la precisión, la eficiencia y la innovación en los sistemas digitales… o IA, para abreviar. [pause] ¿Cómo te llamas?",
+  nameGreeting:
+    "Encantada de conocerte, {firstName}. Voy a guiarte en la configuración de tu primer agente de ventas digital. ¡Es un proceso rápido y muy divertido! Podrás personalizar a tu agente, entrenarlo con la información de tu negocio o tu marca, y enviarlo a encontrar y cerrar ventas por ti. [pause] Empecemos por personalizar a tu agente. Debe ser una extensión de tu negocio: igual que tú diste vida a tu negocio, ahora tu negocio da vida al agente. Comencemos.",
+  trainingIntro:
+    "Tu agente luce impresionante, pero todavía necesita un cerebro. Lo que distingue a nuestros agentes es que cada uno lo construyes tú en tiempo real. Desde el momento en que se crea, aprende solo de la información que le das, y así se convierte en un vendedor hecho a la medida, diseñado exclusivamente para tu negocio. [pause] Ahora es momento de entrenar a tu agente: enséñale todo sobre tu empresa con el mayor detalle posible para que pueda representar de verdad a tu marca.",
+  avatarGreeting: "¡Hola, {firstName}! ¡Tengo muchas ganas de trabajar contigo!",
+};
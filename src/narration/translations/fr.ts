@@ -0,0 +1,11 @@
+import type { NarrationKey } from "../scripts";
+
+export const fr: Record<NarrationKey, string> = {
+  intro:
+    "Bonjour, bâtisseur. Je m'appelle Tava. Je suis une architecture neuronale autonome et multicouche, capable de simuler les fonctions cognitives humaines grâce à des algorithmes d'apprentissage profond et à des modèles prédictifs. Ma mission est d'améliorer la précision, l'efficacité et l'innovation des systèmes numériques… en bref, une IA. [pause] Comment vous appelez-vous ?",
+  nameGreeting:
+    "Enchantée, {firstName}. Je vais vous guider dans la création de votre premier agent commercial numérique. C'est rapide et vraiment amusant ! Vous pourrez personnaliser votre agent, l'entraîner sur votre entreprise ou votre marque, puis l'envoyer trouver et conclure des ventes pour vous. [pause] Commençons par personnaliser votre agent. Il doit être le prolongement de votre entreprise : tout comme vous avez donné naissance à votre entreprise, c'est elle qui donne maintenant naissance à l'agent. C'est parti.",
+  trainingIntro:
+    "Votre agent a fière allure, mais il lui manque encore un cerveau. Ce qui distingue nos agents, c'est que chacun est construit par vous, en temps réel. Dès sa création, il apprend uniquement à partir des informations que vous lui fournissez, pour devenir un vendeur parfaitement adapté, conçu exclusivement pour votre entreprise. [pause] Il est maintenant temps d'entraîner votre agent : apprenez-lui tout sur votre entreprise, avec le plus de détails possible, pour qu'il puisse vraiment représenter votre marque.",
+  avatarGreeting: "Bonjour {firstName} ! J'ai hâte de travailler avec vous !",
+};
@@ -0,0 +1,38 @@
+import type { VoicePresetName } from "../api/text-to-speech";
+
+// "avatar" is the user's avatar speaking, whose voice depends on the avatar
+export type NarrationVoice = VoicePresetName | "avatar";
+
+export interface NarrationScript {
+  // Copy with {variable} placeholders and [pause] markers
+  text: string;
+  voice: NarrationVoice;
+  // Whether the user may skip it
+  skippable: boolean;
+  // Whether the flow depends on it being played, e.g. a line that asks the user something
+  required: boolean;
+  // Where and why it plays, for whoever edits the copy
+  description?: string;
+}
+
+export interface NarrationSegment {
+  // Shown as subtitles
+  text: string;
+  // Sent to text-to-speech; differs from text when a variable has a phonetic spelling
+  spokenText: string;
+  // Silence after this segment, before the next one starts
+  pauseAfterMs: number;
+}
+
+/**
+ * A script ready to play: variables filled in and split into segments at its pause markers
+ */
+export interface Narration {
+  key: string;
+  voice: NarrationVoice;
+  skippable: boolean;
+  required: boolean;
+  // The whole line without pause markers, e.g. for a transcript
+  text: string;
+  segments: NarrationSegment[];
+}
@@ -0,0 +1,172 @@
+/**
+ * The onboarding flow as an explicit state machine
+ * Steps run in ONBOARDING_STEP_ORDER. Each step can guard entry, opt into being skipped,
+ * declare extra transitions beyond "next", and allow or block back navigation.
+ */
+
+export type OnboardingStep = "welcome" | "name" | "avatarCreation" | "avatarReveal" | "training" | "done";
+
+export interface AvatarHistoryEntry {
+  avatarId: string;
+  exportedAt: number;
+}
+
+export interface OnboardingContext {
+  // The user's given name as displayed
+  firstName?: string;
+  fullName?: string;
+  // The user's phonetic respelling of their name for text-to-speech, if they gave one; see getSpokenName
+  spokenName?: string;
+  avatarId?: string;
+  // Avatars the user has exported, most recent first, so they can switch back to one
+  avatarHistory?: AvatarHistoryEntry[];
+  // The Ready Player Me user, so the creator can reopen the current avatar for editing
+  // Their session token is kept in secure storage, not here; see loadRpmSessionToken
+  rpmUserId?: string;
+}
+
+export interface OnboardingStepDefinition {
+  // Entry guard; the step can't be entered until this passes
+  canEnter?: (context: OnboardingContext) => boolean;
+  // Skipped by advance() when this returns true
+  shouldSkip?: (context: OnboardingContext) => boolean;
+  // Steps reachable with goTo() besides the next and previous ones
+  transitions?: OnboardingStep[];
+  allowBack?: boolean;
+}
+
+export const ONBOARDING_STEP_ORDER: OnboardingStep[] = [
+  "welcome",
+  "name",
+  "avatarCreation",
+  "avatarReveal",
+  "training",
+  "done",
+];
+
+export const ONBOARDING_STEPS: Record<OnboardingStep, OnboardingStepDefinition> = {
+  welcome: {
+    allowBack: false,
+  },
+  name: {
+    allowBack: false,
+  },
+  avatarCreation: {
+    canEnter: (context) => !!context.firstName,
+    allowBack: false,
+  },
+  avatarReveal: {
+    canEnter: (context) => !!context.avatarId,
+    // "Change Avatar" sends the user back to the creator, open on the current avatar
+    transitions: ["avatarCreation"],
+    allowBack: true,
+  },
+  training: {
+    canEnter: (context) => !!context.avatarId,
+    allowBack: true,
+  },
+  done: {
+    allowBack: false,
+  },
+};
+
+// Older avatars beyond this are forgotten
+export const MAX_AVATAR_HISTORY = 10;
+
+/**
+ * Record an exported avatar at the front of the history
+ * Exporting an avatar that is already in the history, e.g. after editing it, moves it to the front.
+ */
+export const addToAvatarHistory = (
+  history: AvatarHistoryEntry[] = [],
+  avatarId: string,
+  exportedAt = Date.now(),
+): AvatarHistoryEntry[] => {
+  const others = history.filter((entry) => entry.avatarId !== avatarId);
+  return [{ avatarId, exportedAt }, ...others].slice(0, MAX_AVATAR_HISTORY);
+};
+
+export interface OnboardingState {
+  step: OnboardingStep;
+  history: OnboardingStep[];
+  context: OnboardingContext;
+}
+
+export type OnboardingAction =
+  | { type: "advance"; context?: Partial<OnboardingContext> }
+  | { type: "goTo"; step: OnboardingStep; context?: Partial<OnboardingContext> }
+  | { type: "back" }
+  | { type: "reset" };
+
+export const initialOnboardingState: OnboardingState = {
+  step: "welcome",
+  history: [],
+  context: {},
+};
+
+const canEnter = (step: OnboardingStep, context: OnboardingContext) => {
+  return ONBOARDING_STEPS[step].canEnter?.(context) ?? true;
+};
+
+/**
+ * Find the step advance() would move to from the given step
+ * @returns The next enterable, non-skipped step, or null at the end of the flow
+ */
+export const getNextStep = (from: OnboardingStep, context: OnboardingContext): OnboardingStep | null => {
+  const order = ONBOARDING_STEP_ORDER;
+  for (let i = order.indexOf(from) + 1; i < order.length; i++) {
+    const candidate = order[i];
+    if (ONBOARDING_STEPS[candidate].shouldSkip?.(context)) continue;
+    return canEnter(candidate, context) ? candidate : null;
+  }
+  return null;
+};
+
+/**
+ * Whether goTo() may move directly between two steps
+ * Allowed targets are the adjacent steps in the order plus any declared transitions, subject to the entry guard.
+ */
+export const canTransition = (from: OnboardingStep, to: OnboardingStep, context: OnboardingContext) => {
+  const fromIndex = ONBOARDING_STEP_ORDER.indexOf(from);
+  const toIndex = ONBOARDING_STEP_ORDER.indexOf(to);
+  const isAdjacent = Math.abs(fromIndex - toIndex) === 1;
+  const isDeclared = ONBOARDING_STEPS[from].transitions?.includes(to) ?? false;
+  return (isAdjacent || isDeclared) && canEnter(to, context);
+};
+
+export const canGoBack = (state: OnboardingState) => {
+  return state.history.length > 0 && (ONBOARDING_STEPS[state.step].allowBack ?? false);
+};
+
+/**
+ * Pure transition function for the flow
+ * Invalid transitions leave the state unchanged and log a warning.
+ */
+export const onboardingReducer = (state: OnboardingState, action: OnboardingAction): OnboardingState => {
+  switch (action.type) {
+    case "advance": {
+      const context = { ...state.context, ...action.context };
+      const next = getNextStep(state.step, context);
+      if (!next) {
+        console.warn(`[Onboarding] Cannot advance from "${state.step}"`);
+        return { ...state, context };
+      }
+      return { step: next, history: [...state.history, state.step], context };
+    }
+    case "goTo": {
+      const context = { ...state.context, ...action.context };
+      if (!canTransition(state.step, action.step, context)) {
+        console.warn(`[Onboarding] Transition "${state.step}" -> "${action.step}" is not allowed`);
+        return state;
+      }
+      return { step: action.step, history: [...state.history, state.step], context };
+    }
+    case "back": {
+      if (!canGoBack(state)) return state;
+      const history = state.history.slice(0, -1);
+      return { ...state, step: state.history[state.history.length - 1], history };
+    }
+    case "reset":
+      return initialOnboardingState;
+  }
+};
@@ -0,0 +1,165 @@
+import React, { type FC, useEffect, useMemo, useState } from "react";
+import { StatusBarStyle } from "expo-status-bar";
+import { useLocale } from "../hooks/use-locale";
+import { LOCALES } from "../i18n";
+import { getSpokenName } from "../names";
+import { clearRpmSession, loadRpmSessionToken, saveRpmSessionToken } from "../avatars";
+import { AvatarCreator, type AvatarCreatorConfig, type UserSetEventPayload } from "..";
+import type { OnboardingFlow } from "../hooks/use-onboarding-flow";
+import { addToAvatarHistory, type OnboardingStep } from "./flow";
+import AvatarPage from "../pages/avatar";
+import WelcomeScreen from "../screens/WelcomeScreen";
+import TrainingScreen from "../screens/TrainingScreen";
+import AgentChatScreen from "../screens/AgentChatScreen";
+import UsageScreen from "../screens/UsageScreen";
+
+export interface OnboardingStepProps {
+  flow: OnboardingFlow;
+}
+
+export interface OnboardingStepScreen {
+  component: FC<OnboardingStepProps>;
+  statusBarStyle: StatusBarStyle;
+}
+
+// Set EXPO_PUBLIC_RPM_SUBDOMAIN to your Ready Player Me subdomain
+const RPM_SUBDOMAIN = process.env.EXPO_PUBLIC_RPM_SUBDOMAIN || "demo";
+
+// Shared by the "welcome" and "name" steps so the screen keeps its state across the transition
+const WelcomeStep: FC<OnboardingStepProps> = ({ flow }) => {
+  return (
+    <WelcomeScreen
+      initialStage={flow.step === "name" ? "input" : "initial"}
+      initialName={flow.context.fullName}
+      initialSpokenName={flow.context.spokenName}
+      onIntroComplete={() => flow.advance()}
+      onComplete={(name, spokenNameOverride) =>
+        flow.advance({
+          firstName: name.givenName,
+          fullName: name.fullName,
+          spokenName: spokenNameOverride || undefined,
+        })
+      }
+    />
+  );
+};
+
+// Keep the Ready Player Me session; the token goes to secure storage, which only returns it for the same user
+const rememberRpmUser = (flow: OnboardingFlow, { id, token }: UserSetEventPayload) => {
+  flow.update({ rpmUserId: id });
+  if (token) saveRpmSessionToken(id, token);
+};
+
+const AvatarCreationStep: FC<OnboardingStepProps> = ({ flow }) => {
+  const { locale, t } = useLocale();
+  // Read once, so a token arriving mid-session doesn't reload the creator
+  const [session] = useState(() => ({ avatarId: flow.context.avatarId, userId: flow.context.rpmUserId }));
+  // undefined until secure storage has answered
+  const [token, setToken] = useState<string | null>();
+
+  useEffect(() => {
+    loadRpmSessionToken(session.userId).then(setToken);
+  }, [session]);
+
+  // Tava's animations are full body, so the body type screen is skipped
+  const config = useMemo<AvatarCreatorConfig>(
+    () => ({
+      language: LOCALES[locale].rpmLanguage,
+      bodyType: "fullbody",
+      avatarId: session.avatarId,
+      token: token ?? undefined,
+    }),
+    [locale, session, token],
+  );
+
+  if (token === undefined) return null;
+
+  return (
+    <AvatarCreator
+      subdomain={RPM_SUBDOMAIN}
+      config={config}
+      style={{ marginTop: 30 }}
+      loadingText={t("avatar.creatorLoading")}
+      errorText={t("avatar.creatorError")}
+      retryText={t("avatar.creatorRetry")}
+      onAvatarExported={(event) =>
+        flow.advance({
+          avatarId: event.data.avatarId,
+          avatarHistory: addToAvatarHistory(flow.context.avatarHistory, event.data.avatarId),
+        })
+      }
+      onUserSet={(event) => {
+        console.log(`User Set | User ID = ${event.data.id}`);
+        rememberRpmUser(flow, event.data);
+      }}
+      onUserAuthorized={(event) => {
+        console.log(`User Authorized | User ID = ${event.data.id}`);
+        rememberRpmUser(flow, event.data);
+      }}
+      onAssetUnlocked={(event) => console.log(`Asset Unlocked | Asset ID = ${event.data.assetId}`)}
+      onUserUpdated={(event) => console.log(`User Updated | User ID = ${event.data.id}`)}
+      onUserLoggedOut={() => {
+        console.log("User Logged Out");
+        flow.update({ rpmUserId: undefined });
+        clearRpmSession();
+      }}
+    />
+  );
+};
+
+const AvatarRevealStep: FC<OnboardingStepProps> = ({ flow }) => {
+  const { t } = useLocale();
+  const userName = flow.context.firstName || t("avatar.fallbackName");
+  return (
+    <AvatarPage
+      // A different avatar gets its own reveal and greeting
+      key={flow.context.avatarId}
+      onChangeAvatar={() => flow.goTo("avatarCreation")}
+      avatarId={flow.context.avatarId!}
+      avatarHistory={flow.context.avatarHistory ?? []}
+      onSelectAvatar={(avatarId) => flow.update({ avatarId })}
+      userName={userName}
+      spokenName={getSpokenName({ givenName: userName }, flow.context.spokenName)}
+      onShowTraining={() => flow.advance()}
+    />
+  );
+};
+
+const TrainingStep: FC<OnboardingStepProps> = ({ flow }) => {
+  return (
+    <TrainingScreen
+      skipNarration={flow.completedSteps.includes("training")}
+      onComplete={() => flow.advance()}
+    />
+  );
+};
+
+const DoneStep: FC<OnboardingStepProps> = ({ flow }) => {
+  const [showUsage, setShowUsage] = useState(false);
+
+  if (showUsage) {
+    return <UsageScreen onClose={() => setShowUsage(false)} />;
+  }
+
+  return (
+    <AgentChatScreen
+      firstName={flow.context.firstName}
+      onEditTraining={() => flow.goTo("training")}
+      onStartOver={flow.reset}
+      onShowUsage={() => setShowUsage(true)}
+    />
+  );
+};
+
+/**
+ * The screen rendered for each onboarding step
+ * Adding or reordering steps only touches this registry and ../onboarding/flow.ts.
+ */
+export const ONBOARDING_STEP_SCREENS: Record<OnboardingStep, OnboardingStepScreen> = {
+  welcome: { component: WelcomeStep, statusBarStyle: "dark" },
+  name: { component: WelcomeStep, statusBarStyle: "dark" },
+  avatarCreation: { component: AvatarCreationStep, statusBarStyle: "auto" },
+  avatarReveal: { component: AvatarRevealStep, statusBarStyle: "light" },
+  training: { component: TrainingStep, statusBarStyle: "dark" },
+  done: { component: DoneStep, statusBarStyle: "dark" },
+};
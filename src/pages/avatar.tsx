@@ -1,18 +1,57 @@
 import { type FC, useState, useRef, useEffect } from "react";
-import { Pressable, Text, View, Animated } from "react-native";
+import { Pressable, Text, View, Animated, Image, ScrollView } from "react-native";
 import Avatar3D from "../components/Avatar3D";
+import { useLocale } from "../hooks/use-locale";
+import { use2dImageUrl } from "../hooks/use-2d-image-url";
+import type { AvatarHistoryEntry } from "../onboarding/flow";
+import type { Avatar2DConfig } from "../types";
 
 interface AvatarPageProps {
   avatarId: string;
-  clearAvatar: () => void;
+  // Previously exported avatars, most recent first
+  avatarHistory: AvatarHistoryEntry[];
+  // Reopen the creator to edit the current avatar
+  onChangeAvatar: () => void;
+  onSelectAvatar: (avatarId: string) => void;
   userName: string;
+  spokenName?: string;
   onShowTraining: () => void;
 }
 
-const AvatarPage: FC<AvatarPageProps> = ({ avatarId, clearAvatar, userName, onShowTraining }) => {
+const THUMBNAIL_CONFIG: Avatar2DConfig = { camera: "portrait" };
+
+const AvatarThumbnail: FC<{ avatarId: string; selected: boolean; onPress: () => void }> = ({
+  avatarId,
+  selected,
+  onPress,
+}) => {
+  const imageUrl = use2dImageUrl(avatarId, THUMBNAIL_CONFIG);
+  return (
+    <Pressable
+      onPress={onPress}
+      disabled={selected}
+      className={`w-14 h-14 rounded-full overflow-hidden bg-white/90 mx-1 border-2 ${
+        selected ? "border-blue-500" : "border-transparent"
+      }`}
+    >
+      <Image source={{ uri: imageUrl }} style={{ width: "100%", height: "100%" }} />
+    </Pressable>
+  );
+};
+
+const AvatarPage: FC<AvatarPageProps> = ({
+  avatarId,
+  avatarHistory,
+  onChangeAvatar,
+  onSelectAvatar,
+  userName,
+  spokenName,
+  onShowTraining,
+}) => {
   const [accepted, setAccepted] = useState(false);
   const [greetingComplete, setGreetingComplete] = useState(false);
   const blinkAnim = useRef(new Animated.Value(1)).current;
+  const { t } = useLocale();
 
   // Blinking animation for "click to continue"
   useEffect(() => {
@@ -56,6 +95,7 @@ const AvatarPage: FC<AvatarPageProps> = ({ avatarId, clearAvatar, userName, onSh
           avatarId={avatarId}
           accepted={accepted}
           userName={userName}
+          spokenName={spokenName}
           onGreetingComplete={handleGreetingComplete}
         />
 
@@ -65,7 +105,7 @@ const AvatarPage: FC<AvatarPageProps> = ({ avatarId, clearAvatar, userName, onSh
               onPress={handleAccept}
               className="bg-blue-500 px-8 py-4 rounded-full shadow-lg"
             >
-              <Text className="text-white font-semibold text-lg">Accept</Text>
+              <Text className="text-white font-semibold text-lg">{t("avatar.accept")}</Text>
             </Pressable>
           </View>
         )}
@@ -82,18 +122,38 @@ const AvatarPage: FC<AvatarPageProps> = ({ avatarId, clearAvatar, userName, onSh
                 opacity: blinkAnim,
               }}
             >
-              click the screen to continue
+              {t("avatar.tapToContinue")}
             </Animated.Text>
           </View>
         )}
 
         <View className="absolute top-12 left-0 right-0 items-center z-10">
           <Pressable
-            onPress={clearAvatar}
+            onPress={onChangeAvatar}
             className="bg-white/90 px-6 py-3 rounded-full shadow-lg"
           >
-            <Text className="text-gray-900 font-semibold">Change Avatar</Text>
+            <Text className="text-gray-900 font-semibold">{t("avatar.change")}</Text>
           </Pressable>
+
+          {avatarHistory.length > 1 && (
+            <View className="mt-4 items-center">
+              <Text className="text-white text-sm mb-2">{t("avatar.previous")}</Text>
+              <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                contentContainerStyle={{ paddingHorizontal: 16 }}
+              >
+                {avatarHistory.map((entry) => (
+                  <AvatarThumbnail
+                    key={entry.avatarId}
+                    avatarId={entry.avatarId}
+                    selected={entry.avatarId === avatarId}
+                    onPress={() => onSelectAvatar(entry.avatarId)}
+                  />
+                ))}
+              </ScrollView>
+            </View>
+          )}
         </View>
       </View>
     </Pressable>
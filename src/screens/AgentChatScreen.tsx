@@ -0,0 +1,165 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  Pressable,
+  FlatList,
+  KeyboardAvoidingView,
+  Platform,
+  ActivityIndicator,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { askAgent, AgentChatMessage } from "../api/agent-chat";
+import { useLocale } from "../hooks/use-locale";
+
+interface AgentChatScreenProps {
+  firstName?: string;
+  onEditTraining: () => void;
+  onStartOver: () => void;
+  // Opened by long-pressing the title, for checking what onboarding cost
+  onShowUsage?: () => void;
+}
+
+export default function AgentChatScreen({
+  firstName,
+  onEditTraining,
+  onStartOver,
+  onShowUsage,
+}: AgentChatScreenProps) {
+  const insets = useSafeAreaInsets();
+  const { t } = useLocale();
+  const listRef = useRef<FlatList<AgentChatMessage>>(null);
+  const [messages, setMessages] = useState<AgentChatMessage[]>([
+    {
+      role: "assistant",
+      content: firstName ? t("chat.greetingWithName", { firstName }) : t("chat.greeting"),
+    },
+  ]);
+  const [input, setInput] = useState("");
+  const [isThinking, setIsThinking] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop any answer still streaming when leaving the chat
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleSend = async () => {
+    const question = input.trim();
+    if (!question || isThinking) return;
+
+    // The greeting isn't part of the conversation the model sees
+    const history = messages.slice(1);
+    setMessages((current) => [...current, { role: "user", content: question }]);
+    setInput("");
+    setIsThinking(true);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    // Index of the assistant message, added once the first delta arrives
+    const answerIndex = messages.length + 1;
+
+    const setAnswer = (answer: AgentChatMessage) =>
+      setMessages((current) => [...current.slice(0, answerIndex), answer]);
+
+    let streamed = "";
+    try {
+      const answer = await askAgent(question, history, undefined, {
+        signal: controller.signal,
+        onDelta: (delta) => {
+          streamed += delta;
+          setAnswer({ role: "assistant", content: streamed });
+        },
+      });
+      setAnswer({ role: "assistant", content: answer.content, citations: answer.citations });
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error("Agent chat error:", error);
+      setAnswer({
+        role: "assistant",
+        content: streamed || t("chat.error"),
+      });
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+      }
+      if (!controller.signal.aborted) {
+        setIsThinking(false);
+      }
+    }
+  };
+
+  const renderMessage = ({ item }: { item: AgentChatMessage }) => {
+    const isUser = item.role === "user";
+    return (
+      <View className={`mb-3 max-w-[85%] ${isUser ? "self-end" : "self-start"}`}>
+        <View className={`px-4 py-3 rounded-2xl ${isUser ? "bg-blue-500" : "bg-gray-100"}`}>
+          <Text className={`text-base ${isUser ? "text-white" : "text-black"}`}>{item.content}</Text>
+        </View>
+        {!!item.citations?.length && (
+          <View className="flex-row flex-wrap mt-1">
+            {item.citations.map((source) => (
+              <View key={source.documentId} className="bg-blue-50 px-2 py-1 rounded-full mr-1 mt-1">
+                <Text className="text-xs text-blue-700">{source.title}</Text>
+              </View>
+            ))}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <KeyboardAvoidingView
+      behavior={Platform.OS === "ios" ? "padding" : "height"}
+      className="flex-1 bg-white"
+      style={{ paddingTop: insets.top }}
+    >
+      <View className="flex-row items-center justify-between px-6 py-3 border-b border-gray-100">
+        <Pressable onPress={onEditTraining}>
+          <Text className="text-blue-500 font-semibold">{t("chat.trainMore")}</Text>
+        </Pressable>
+        <Pressable onLongPress={onShowUsage} disabled={!onShowUsage}>
+          <Text className="text-lg font-bold text-black">{t("chat.title")}</Text>
+        </Pressable>
+        <Pressable onPress={onStartOver}>
+          <Text className="text-gray-500 font-semibold">{t("chat.startOver")}</Text>
+        </Pressable>
+      </View>
+
+      <FlatList
+        ref={listRef}
+        data={messages}
+        keyExtractor={(_, index) => String(index)}
+        renderItem={renderMessage}
+        contentContainerClassName="px-6 py-4"
+        onContentSizeChange={() => listRef.current?.scrollToEnd({ animated: true })}
+        ListFooterComponent={
+          isThinking && messages[messages.length - 1]?.role === "user" ? (
+            <View className="self-start px-4 py-3">
+              <ActivityIndicator color="#3b82f6" />
+            </View>
+          ) : null
+        }
+      />
+
+      <View className="flex-row items-end px-6 pt-2" style={{ paddingBottom: insets.bottom + 8 }}>
+        <TextInput
+          value={input}
+          onChangeText={setInput}
+          placeholder={t("chat.placeholder")}
+          placeholderTextColor="#999999"
+          className="flex-1 bg-gray-100 px-4 py-3 rounded-2xl text-black text-base mr-3"
+          multiline
+          onSubmitEditing={handleSend}
+        />
+        <Pressable
+          onPress={handleSend}
+          disabled={!input.trim() || isThinking}
+          className={`px-5 py-3 rounded-2xl ${input.trim() && !isThinking ? "bg-blue-500" : "bg-gray-300"}`}
+        >
+          <Text className="text-white text-base font-semibold">{t("chat.send")}</Text>
+        </Pressable>
+      </View>
+    </KeyboardAvoidingView>
+  );
+}
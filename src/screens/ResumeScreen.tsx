@@ -0,0 +1,34 @@
+import React from "react";
+import { View, Text, Pressable } from "react-native";
+import { useLocale } from "../hooks/use-locale";
+
+interface ResumeScreenProps {
+  firstName?: string;
+  onContinue: () => void;
+  onStartOver: () => void;
+}
+
+export default function ResumeScreen({ firstName, onContinue, onStartOver }: ResumeScreenProps) {
+  const { t } = useLocale();
+
+  return (
+    <View className="flex-1 bg-white items-center justify-center px-8">
+      <View className="w-full">
+        <Text className="text-2xl font-bold text-black text-center">
+          {firstName ? t("resume.titleWithName", { firstName }) : t("resume.title")}
+        </Text>
+        <Text className="text-base text-gray-600 text-center mt-2 mb-6">
+          {t("resume.body")}
+        </Text>
+
+        <Pressable onPress={onContinue} className="w-full py-4 rounded-2xl bg-blue-500 mb-3">
+          <Text className="text-white text-center text-lg font-semibold">{t("resume.continue")}</Text>
+        </Pressable>
+
+        <Pressable onPress={onStartOver} className="w-full py-4 rounded-2xl bg-gray-100">
+          <Text className="text-gray-900 text-center text-lg font-semibold">{t("resume.startOver")}</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+}
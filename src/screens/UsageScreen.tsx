@@ -0,0 +1,100 @@
+import React, { useMemo } from "react";
+import { View, Text, Pressable, ScrollView } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { format } from "date-fns";
+import useUsageStore from "../state/usageStore";
+import { summarizeUsage, UsageEntry, UsageTotals } from "../usage";
+
+interface UsageScreenProps {
+  onClose: () => void;
+}
+
+const RECENT_ENTRY_COUNT = 50;
+
+const formatCost = (usd: number | undefined) => {
+  if (usd === undefined) return "no price";
+  return usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+};
+
+const describeQuantities = (usage: Partial<UsageTotals> | UsageEntry) => {
+  const parts: string[] = [];
+  if (usage.inputTokens || usage.outputTokens) {
+    parts.push(`${usage.inputTokens ?? 0} in / ${usage.outputTokens ?? 0} out tokens`);
+  }
+  if (usage.characters) parts.push(`${usage.characters} chars`);
+  if (usage.images) parts.push(`${usage.images} images`);
+  if (usage.audioSeconds) parts.push(`${Math.round(usage.audioSeconds)}s audio`);
+  return parts.join(", ");
+};
+
+function TotalsRow({ label, totals }: { label: string; totals: UsageTotals }) {
+  return (
+    <View className="flex-row items-start justify-between py-2 border-b border-gray-100">
+      <View className="flex-1 pr-3">
+        <Text className="text-base text-black">{label}</Text>
+        <Text className="text-xs text-gray-500">
+          {totals.calls} calls{describeQuantities(totals) ? ` · ${describeQuantities(totals)}` : ""}
+        </Text>
+      </View>
+      <Text className="text-base font-semibold text-black">{formatCost(totals.costUsd)}</Text>
+    </View>
+  );
+}
+
+// Debug view of the usage ledger: what AI and TTS calls this device has made and roughly what they cost
+export default function UsageScreen({ onClose }: UsageScreenProps) {
+  const insets = useSafeAreaInsets();
+  const entries = useUsageStore((state) => state.entries);
+  const clear = useUsageStore((state) => state.clear);
+  const summary = useMemo(() => summarizeUsage(entries), [entries]);
+  const recent = useMemo(() => entries.slice(-RECENT_ENTRY_COUNT).reverse(), [entries]);
+
+  return (
+    <View className="flex-1 bg-white" style={{ paddingTop: insets.top }}>
+      <View className="flex-row items-center justify-between px-6 py-3 border-b border-gray-100">
+        <Pressable onPress={onClose}>
+          <Text className="text-blue-500 font-semibold">Close</Text>
+        </Pressable>
+        <Text className="text-lg font-bold text-black">Usage</Text>
+        <Pressable onPress={clear}>
+          <Text className="text-red-500 font-semibold">Clear</Text>
+        </Pressable>
+      </View>
+
+      <ScrollView contentContainerClassName="px-6 py-4" contentContainerStyle={{ paddingBottom: insets.bottom + 16 }}>
+        <Text className="text-3xl font-bold text-black">{formatCost(summary.total.costUsd)}</Text>
+        <Text className="text-sm text-gray-500 mb-6">
+          {summary.total.calls} calls
+          {summary.total.unpricedCalls > 0 ? ` · ${summary.total.unpricedCalls} without a price` : ""}
+        </Text>
+
+        <Text className="text-lg font-semibold text-black mb-1">By feature</Text>
+        {Object.entries(summary.byFeature).map(([feature, totals]) => (
+          <TotalsRow key={feature} label={feature} totals={totals} />
+        ))}
+
+        <Text className="text-lg font-semibold text-black mt-6 mb-1">By provider</Text>
+        {Object.entries(summary.byProvider).map(([provider, totals]) => (
+          <TotalsRow key={provider} label={provider} totals={totals} />
+        ))}
+
+        <Text className="text-lg font-semibold text-black mt-6 mb-1">Recent calls</Text>
+        {recent.length === 0 && <Text className="text-sm text-gray-500">Nothing recorded yet.</Text>}
+        {recent.map((entry) => (
+          <View key={entry.id} className="py-2 border-b border-gray-100">
+            <View className="flex-row justify-between">
+              <Text className="text-sm text-black">
+                {entry.kind} · {entry.model}
+              </Text>
+              <Text className="text-sm text-black">{formatCost(entry.costUsd)}</Text>
+            </View>
+            <Text className="text-xs text-gray-500">
+              {format(entry.timestamp, "MMM d, h:mm:ss a")} · {entry.feature}
+              {describeQuantities(entry) ? ` · ${describeQuantities(entry)}` : ""}
+            </Text>
+          </View>
+        ))}
+      </ScrollView>
+    </View>
+  );
+}
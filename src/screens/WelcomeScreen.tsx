@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from "react";
+import React, { useState, useEffect, useRef, useCallback } from "react";
 import {
   View,
   Text,
@@ -8,31 +8,72 @@ import {
   KeyboardAvoidingView,
   Platform,
   Keyboard,
+  ActivityIndicator,
 } from "react-native";
-import * as FileSystem from "expo-file-system";
 import { Audio } from "expo-av";
+import { Ionicons } from "@expo/vector-icons";
+import { useNarration } from "../hooks/use-narration";
+import { useLocale } from "../hooks/use-locale";
+import { useVoiceRecorder } from "../hooks/use-voice-recorder";
+import { useAbortSignal } from "../hooks/use-abort-signal";
+import { transcribeAudio } from "../api/transcribe-audio";
+import { extractName } from "../api/name-extraction";
+import { useTextToSpeech } from "../hooks/use-text-to-speech";
+import { getSpokenName, NameValidationReason, PersonName, validateName } from "../names";
+import { LOCALES, SUPPORTED_LOCALES } from "../i18n";
+import { getNarration } from "../narration";
+import NarrationPlayer from "../components/NarrationPlayer";
+
+type WelcomeStage = "initial" | "countdown" | "speaking" | "input";
+
+// Where the spoken-name input is; "confirm" means a recognised name is in the text field awaiting Enter
+type VoiceInputState = "idle" | "listening" | "transcribing" | "confirm" | "notHeard";
 
 interface WelcomeScreenProps {
-  onComplete: (firstName: string) => void;
+  // "input" skips the countdown and intro, used when resuming at the name step
+  initialStage?: WelcomeStage;
+  initialName?: string;
+  // The respelling the user entered before, if any
+  initialSpokenName?: string;
+  onIntroComplete?: () => void;
+  // spokenNameOverride is only what the user typed, empty if nothing; resolve it with getSpokenName
+  onComplete: (name: PersonName, spokenNameOverride: string) => void;
 }
 
-export default function WelcomeScreen({ onComplete }: WelcomeScreenProps) {
-  const [stage, setStage] = useState<
-    "initial" | "countdown" | "speaking" | "input"
-  >("initial");
+export default function WelcomeScreen({
+  initialStage = "initial",
+  initialName = "",
+  initialSpokenName = "",
+  onIntroComplete,
+  onComplete,
+}: WelcomeScreenProps) {
+  const [stage, setStage] = useState<WelcomeStage>(initialStage);
   const [countdown, setCountdown] = useState(3);
-  const [currentSubtitle, setCurrentSubtitle] = useState("");
-  const [name, setName] = useState("");
+  const [name, setName] = useState(initialName);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [subtitleLines, setSubtitleLines] = useState<string[]>([]);
-  const [currentLineIndex, setCurrentLineIndex] = useState(0);
+  const [voiceInput, setVoiceInput] = useState<VoiceInputState>("idle");
+  // The user's phonetic respelling; empty means the given name is spoken as written
+  const [spokenNameOverride, setSpokenNameOverride] = useState(initialSpokenName);
+  const [nameError, setNameError] = useState<NameValidationReason | null>(null);
 
   const blinkAnim = useRef(new Animated.Value(1)).current;
   const continueBlinkAnim = useRef(new Animated.Value(1)).current;
   const inputSlideAnim = useRef(new Animated.Value(300)).current;
   const subtitleOpacity = useRef(new Animated.Value(0)).current;
   const subtitleTranslateY = useRef(new Animated.Value(50)).current;
-  const soundRef = useRef<Audio.Sound | null>(null);
+  const narrationControls = useNarration();
+  const { play: playNarration, prefetch: prefetchNarration } = narrationControls;
+  const { locale, setLocale, t } = useLocale();
+  const recorder = useVoiceRecorder();
+  const nameInputRef = useRef<TextInput>(null);
+  const getSignal = useAbortSignal();
+  const { speak: speakPreview } = useTextToSpeech("nameCapture");
+  const validation = validateName(name);
+
+  // Without a microphone, typing is the only way in
+  useEffect(() => {
+    if (recorder.status === "denied") nameInputRef.current?.focus();
+  }, [recorder.status]);
 
   // Blinking animation for "click to continue"
   useEffect(() => {
@@ -86,46 +127,29 @@ export default function WelcomeScreen({ onComplete }: WelcomeScreenProps) {
     }
   }, [stage, countdown]);
 
-  // Cleanup sound on unmount
+  // Warm the intro clip while the countdown runs so it starts on zero
   useEffect(() => {
-    return () => {
-      if (soundRef.current) {
-        soundRef.current.unloadAsync();
-      }
-    };
-  }, []);
+    if (stage === "countdown") {
+      prefetchNarration(getNarration("intro"));
+    }
+  }, [stage, prefetchNarration]);
 
   // Slide up animation for input
-  const slideUpInput = () => {
+  const slideUpInput = useCallback(() => {
     Animated.spring(inputSlideAnim, {
       toValue: 0,
       tension: 50,
       friction: 7,
       useNativeDriver: true,
     }).start();
-  };
+  }, [inputSlideAnim]);
 
-  // Animate subtitle - fade in from bottom, then fade out upward
-  const animateSubtitle = (text: string) => {
-    // Reset position and opacity
-    subtitleOpacity.setValue(0);
-    subtitleTranslateY.setValue(50);
-    setCurrentSubtitle(text);
-
-    // Fade in and slide up
-    Animated.parallel([
-      Animated.timing(subtitleOpacity, {
-        toValue: 1,
-        duration: 500,
-        useNativeDriver: true,
-      }),
-      Animated.timing(subtitleTranslateY, {
-        toValue: 0,
-        duration: 500,
-        useNativeDriver: true,
-      }),
-    ]).start();
-  };
+  // Resuming straight into the name input still slides it up
+  useEffect(() => {
+    if (initialStage === "input") {
+      slideUpInput();
+    }
+  }, [initialStage, slideUpInput]);
 
   // Fade out subtitle upward
   const fadeOutSubtitle = () => {
@@ -145,70 +169,9 @@ export default function WelcomeScreen({ onComplete }: WelcomeScreenProps) {
     });
   };
 
-  // Split text into single lines (roughly 40-50 chars per line)
-  const splitIntoChunks = (text: string): string[] => {
-    const words = text.split(" ");
-    const chunks: string[] = [];
-    let currentChunk = "";
-
-    words.forEach((word) => {
-      const testChunk = currentChunk ? `${currentChunk} ${word}` : word;
-      // Keep each line to roughly 50 characters (one line)
-      if (testChunk.length > 50 && currentChunk) {
-        chunks.push(currentChunk);
-        currentChunk = word;
-      } else {
-        currentChunk = testChunk;
-      }
-    });
-
-    if (currentChunk) {
-      chunks.push(currentChunk);
-    }
-
-    return chunks;
-  };
-
-  // Calculate timing for each chunk based on word count and speaking rate
-  const calculateChunkDuration = (text: string): number => {
-    const wordCount = text.split(" ").length;
-    // Assuming average speaking rate of 150 words per minute = 2.5 words per second
-    // So roughly 400ms per word
-    return wordCount * 400;
-  };
-
-  // Show subtitles progressively synchronized with audio playback
-  const showSubtitlesWithAudio = async (chunks: string[], audioDurationMs: number) => {
-    console.log("Starting subtitles with duration:", audioDurationMs, "ms");
-    console.log("Number of chunks:", chunks.length);
-
-    const totalWords = chunks.reduce((sum, chunk) => sum + chunk.split(" ").length, 0);
-    const msPerWord = audioDurationMs / totalWords;
-
-    // Set opacity to 1 at the start
+  const showSubtitles = () => {
     subtitleOpacity.setValue(1);
     subtitleTranslateY.setValue(0);
-
-    for (let i = 0; i < chunks.length; i++) {
-      const wordCount = chunks[i].split(" ").length;
-      const duration = wordCount * msPerWord;
-
-      console.log(`Showing chunk ${i + 1}/${chunks.length}:`, chunks[i]);
-
-      // Show subtitle immediately without fade in animation for better sync
-      setCurrentSubtitle(chunks[i]);
-
-      // Wait for the calculated duration
-      await new Promise((resolve) => setTimeout(resolve, duration));
-
-      // Clear subtitle between chunks for visual separation
-      if (i < chunks.length - 1) {
-        setCurrentSubtitle("");
-        await new Promise((resolve) => setTimeout(resolve, 100));
-      }
-    }
-
-    console.log("Finished showing all subtitle chunks");
   };
 
   const handleInitialClick = async () => {
@@ -219,168 +182,104 @@ export default function WelcomeScreen({ onComplete }: WelcomeScreenProps) {
     setStage("countdown");
   };
 
-  const playElevenLabsAudio = async (text: string, onFinish: () => void, onDurationReady?: (durationMs: number) => void) => {
-    try {
-      // Using Aria - a neutral, professional voice similar to Siri
-      const voiceId = "9BWtsMINqrJLrRacOk9x";
-      const apiUrl = `https://api.elevenlabs.io/v1/text-to-speech/${voiceId}?output_format=mp3_44100_128`;
-
-      console.log("Fetching audio from ElevenLabs...");
-
-      // Fetch the audio from ElevenLabs
-      const response = await fetch(apiUrl, {
-        method: "POST",
-        headers: {
-          "xi-api-key": process.env.EXPO_PUBLIC_VIBECODE_ELEVENLABS_API_KEY!,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          text: text,
-          model_id: "eleven_flash_v2_5",
-          voice_settings: {
-            stability: 0.7,
-            similarity_boost: 0.5,
-            style: 0.0,
-            use_speaker_boost: false,
-          },
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`API request failed with status ${response.status}`);
-      }
-
-      // Get the audio as array buffer
-      const audioBuffer = await response.arrayBuffer();
-      console.log("Audio received, size:", audioBuffer.byteLength);
-
-      // Save to temporary file
-      const fileUri = `${FileSystem.cacheDirectory}temp_audio.mp3`;
-      const base64Audio = btoa(
-        new Uint8Array(audioBuffer).reduce(
-          (data, byte) => data + String.fromCharCode(byte),
-          ""
-        )
-      );
-
-      await FileSystem.writeAsStringAsync(fileUri, base64Audio, {
-        encoding: FileSystem.EncodingType.Base64,
-      });
-
-      console.log("Audio saved to:", fileUri);
-
-      // Unload previous sound if exists
-      if (soundRef.current) {
-        await soundRef.current.unloadAsync();
-      }
+  const speakIntroduction = async () => {
+    setStage("speaking");
 
-      // Load and play the audio
-      const { sound } = await Audio.Sound.createAsync(
-        { uri: fileUri },
-        { shouldPlay: true }
-      );
+    // Subtitles follow the audio, including when the user pauses, replays or skips
+    showSubtitles();
+    await playNarration(getNarration("intro"));
 
-      soundRef.current = sound;
+    await fadeOutSubtitle();
+    setTimeout(() => {
+      setStage("input");
+      slideUpInput();
+      onIntroComplete?.();
+    }, 400);
+  };
 
-      // Get audio duration once loaded
-      const status = await sound.getStatusAsync();
-      console.log("Audio status:", status.isLoaded, "Duration:", status.isLoaded ? status.durationMillis : "N/A");
-      if (status.isLoaded && status.durationMillis && onDurationReady) {
-        console.log("Calling onDurationReady with:", status.durationMillis);
-        onDurationReady(status.durationMillis);
-      }
+  // Hold-to-talk: record while the mic button is held, then fill the field with the name that was heard
+  const handleMicPressIn = async () => {
+    if (isProcessing || voiceInput === "transcribing") return;
+    Keyboard.dismiss();
+    if (await recorder.start()) {
+      setVoiceInput("listening");
+    }
+  };
 
-      console.log("Playing audio...");
+  const handleMicPressOut = async () => {
+    const clip = await recorder.stop();
+    if (!clip) {
+      setVoiceInput("idle");
+      return;
+    }
 
-      // Set up playback status update
-      sound.setOnPlaybackStatusUpdate((status) => {
-        if (status.isLoaded && status.didJustFinish) {
-          console.log("Audio playback finished");
-          onFinish();
-        }
+    setVoiceInput("transcribing");
+    try {
+      const transcript = await transcribeAudio(clip.uri, {
+        feature: "nameCapture",
+        durationMs: clip.durationMs,
+        signal: getSignal(),
       });
+      const extracted = transcript ? await extractName(transcript) : null;
+      if (!extracted) {
+        setVoiceInput("notHeard");
+        return;
+      }
+      handleNameChange(extracted.fullName);
+      setVoiceInput("confirm");
     } catch (error) {
-      console.error("Error with text-to-speech:", error);
-      // Fallback - call onFinish anyway
-      onFinish();
+      console.warn("Could not recognise the spoken name:", error);
+      setVoiceInput("notHeard");
     }
   };
 
-  const speakIntroduction = async () => {
-    setStage("speaking");
-    const introText =
-      "Hello builder, my name is Tava, I am an autonomous, multi-layered neural architecture capable of simulating human cognitive functions through deep learning algorithms and predictive modeling frameworks. My purpose is to enhance accuracy, efficiency, and innovation across digital systems.. or AI for short. What is your name?";
-
-    const chunks = splitIntoChunks(introText);
-
-    // Start audio playback and capture duration
-    let audioDurationMs = 0;
-    let subtitlesStarted = false;
-
-    const audioPromise = new Promise<void>((resolve) => {
-      playElevenLabsAudio(
-        introText,
-        resolve,
-        (duration) => {
-          audioDurationMs = duration;
-          // Start subtitles immediately when we have duration
-          if (!subtitlesStarted) {
-            subtitlesStarted = true;
-            showSubtitlesWithAudio(chunks, duration);
-          }
-        }
-      );
-    });
-
-    // Wait for audio to complete
-    await audioPromise;
+  const voiceHint =
+    recorder.status === "denied"
+      ? t("welcome.micDenied")
+      : {
+          idle: t("welcome.holdToTalk"),
+          listening: t("welcome.listening"),
+          transcribing: t("welcome.transcribing"),
+          confirm: t("welcome.confirmName"),
+          notHeard: t("welcome.nameNotHeard"),
+        }[voiceInput];
+
+  const handleNameChange = (value: string) => {
+    setName(value);
+    setNameError(null);
+  };
 
-    await fadeOutSubtitle();
-    setTimeout(() => {
-      setStage("input");
-      slideUpInput();
-    }, 400);
+  // Let the user hear how Tava will say their name before committing to it
+  const handlePreviewSpokenName = () => {
+    if (!validation.valid) return;
+    speakPreview(getSpokenName(validation.name, spokenNameOverride), "tava");
   };
 
   const handleSubmitName = async () => {
-    const trimmedName = name.trim();
-    if (!trimmedName || isProcessing) return;
+    if (isProcessing) return;
+    if (!validation.valid) {
+      setNameError(validation.reason);
+      return;
+    }
 
-    const nameParts = trimmedName.split(" ");
-    const firstName = nameParts[0];
+    const parsedName = validation.name;
+    const spokenName = getSpokenName(parsedName, spokenNameOverride);
 
     setIsProcessing(true);
     Keyboard.dismiss();
 
-    // Speak the greeting
-    const greetingText = `Nice to meet you ${firstName}. I'm going to take you through the process of setting up your first digital sales agent. This process is quick and really fun! You will be able to customize your agent, train it on your business or brand, and send it off to find and close deals for you. Let's start with customizing your agent, your agent should be an extension of your business, much like how you birthed your business, in this case your business births the agent, let's begin.`;
-
-    // Since greeting is now longer, show it progressively
-    const greetingChunks = splitIntoChunks(greetingText);
-
-    // Start audio playback and capture duration
-    let subtitlesStarted = false;
-
-    const audioPromise = new Promise<void>((resolve) => {
-      playElevenLabsAudio(
-        greetingText,
-        resolve,
-        (duration) => {
-          // Start subtitles immediately when we have duration
-          if (!subtitlesStarted) {
-            subtitlesStarted = true;
-            showSubtitlesWithAudio(greetingChunks, duration);
-          }
-        }
-      );
-    });
-
-    // Wait for audio to complete
-    await audioPromise;
+    // Subtitles show the name as written, the audio says the phonetic form
+    const greeting = getNarration(
+      "nameGreeting",
+      { firstName: parsedName.givenName },
+      { spokenVariables: { firstName: spokenName } },
+    );
+    showSubtitles();
+    await playNarration(greeting);
 
     await fadeOutSubtitle();
     setTimeout(() => {
-      onComplete(firstName);
+      onComplete(parsedName, spokenNameOverride.trim());
     }, 500);
   };
 
@@ -390,6 +289,24 @@ export default function WelcomeScreen({ onComplete }: WelcomeScreenProps) {
         onPress={handleInitialClick}
         className="flex-1 bg-white items-center justify-end pb-20"
       >
+        {/* Language picker; pressing a language doesn't start the intro */}
+        <View className="absolute top-16 left-0 right-0 items-center">
+          <Text className="text-gray-500 text-sm mb-2">{t("language.label")}</Text>
+          <View className="flex-row">
+            {SUPPORTED_LOCALES.map((option) => (
+              <Pressable
+                key={option}
+                onPress={() => setLocale(option)}
+                className={`px-3 py-1 mx-1 rounded-full ${option === locale ? "bg-black" : "bg-gray-100"}`}
+              >
+                <Text className={option === locale ? "text-white" : "text-black"}>
+                  {LOCALES[option].nativeName}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+        </View>
+
         <Animated.Text
           style={{
             fontSize: 24,
@@ -400,7 +317,7 @@ export default function WelcomeScreen({ onComplete }: WelcomeScreenProps) {
             opacity: continueBlinkAnim,
           }}
         >
-          click the screen to continue
+          {t("welcome.tapToContinue")}
         </Animated.Text>
       </Pressable>
     );
@@ -410,7 +327,7 @@ export default function WelcomeScreen({ onComplete }: WelcomeScreenProps) {
     return (
       <View className="flex-1 bg-white items-center justify-center">
         <Animated.View style={{ opacity: blinkAnim }}>
-          <Text className="text-6xl font-bold text-black">VOLUME ON</Text>
+          <Text className="text-6xl font-bold text-black">{t("welcome.volumeOn")}</Text>
           <Text className="text-8xl font-bold text-black text-center mt-4">
             {countdown}
           </Text>
@@ -422,6 +339,7 @@ export default function WelcomeScreen({ onComplete }: WelcomeScreenProps) {
   if (stage === "speaking") {
     return (
       <View className="flex-1 bg-white justify-end pb-16 px-8">
+        <NarrationPlayer controls={narrationControls} />
         <Animated.View
           style={{
             opacity: subtitleOpacity,
@@ -429,7 +347,7 @@ export default function WelcomeScreen({ onComplete }: WelcomeScreenProps) {
           }}
         >
           <Text className="text-lg text-black text-center leading-relaxed">
-            {currentSubtitle}
+            {narrationControls.subtitle}
           </Text>
         </Animated.View>
       </View>
@@ -451,17 +369,67 @@ export default function WelcomeScreen({ onComplete }: WelcomeScreenProps) {
                 marginBottom: 48,
               }}
             >
-              <TextInput
-                value={name}
-                onChangeText={setName}
-                placeholder="First and Last Name"
-                placeholderTextColor="#999999"
-                className="w-full bg-gray-100 px-6 py-4 rounded-2xl text-black text-lg mb-4"
-                autoFocus
-                onSubmitEditing={handleSubmitName}
-                returnKeyType="done"
-                editable={!isProcessing}
-              />
+              <View className="flex-row items-center mb-2">
+                <TextInput
+                  ref={nameInputRef}
+                  value={name}
+                  onChangeText={handleNameChange}
+                  placeholder={t("welcome.namePlaceholder")}
+                  placeholderTextColor="#999999"
+                  className="flex-1 bg-gray-100 px-6 py-4 rounded-2xl text-black text-lg"
+                  autoFocus
+                  onSubmitEditing={handleSubmitName}
+                  returnKeyType="done"
+                  editable={!isProcessing && voiceInput !== "transcribing"}
+                />
+
+                {recorder.status !== "denied" && (
+                  <Pressable
+                    onPressIn={handleMicPressIn}
+                    onPressOut={handleMicPressOut}
+                    disabled={voiceInput === "transcribing"}
+                    accessibilityLabel={t("welcome.holdToTalk")}
+                    className={`ml-3 w-14 h-14 rounded-full items-center justify-center ${
+                      voiceInput === "listening" ? "bg-red-500" : "bg-blue-500"
+                    }`}
+                  >
+                    {voiceInput === "transcribing" ? (
+                      <ActivityIndicator color="white" />
+                    ) : (
+                      <Ionicons name="mic" size={26} color="white" />
+                    )}
+                  </Pressable>
+                )}
+              </View>
+
+              <Text className={`text-sm text-center mb-4 ${nameError ? "text-red-500" : "text-gray-500"}`}>
+                {nameError ? t(`name.error.${nameError}`) : voiceHint}
+              </Text>
+
+              {validation.valid && (
+                <View className="mb-4">
+                  <Text className="text-sm text-gray-500 mb-1">{t("welcome.spokenNameLabel")}</Text>
+                  <View className="flex-row items-center">
+                    <TextInput
+                      value={spokenNameOverride}
+                      onChangeText={setSpokenNameOverride}
+                      placeholder={validation.name.givenName}
+                      placeholderTextColor="#999999"
+                      className="flex-1 bg-gray-100 px-4 py-3 rounded-2xl text-black text-base"
+                      autoCorrect={false}
+                      returnKeyType="done"
+                    />
+                    <Pressable
+                      onPress={handlePreviewSpokenName}
+                      accessibilityLabel={t("welcome.hearSpokenName")}
+                      className="ml-3 w-12 h-12 rounded-full items-center justify-center bg-gray-100"
+                    >
+                      <Ionicons name="volume-high" size={22} color="#111827" />
+                    </Pressable>
+                  </View>
+                  <Text className="text-xs text-gray-400 mt-1">{t("welcome.spokenNameHint")}</Text>
+                </View>
+              )}
 
               <Pressable
                 onPress={handleSubmitName}
@@ -473,12 +441,13 @@ export default function WelcomeScreen({ onComplete }: WelcomeScreenProps) {
                 }`}
               >
                 <Text className="text-white text-center text-lg font-semibold">
-                  {isProcessing ? "Processing..." : "Enter"}
+                  {isProcessing ? t("welcome.processing") : t("welcome.submit")}
                 </Text>
               </Pressable>
             </Animated.View>
           )}
 
+          {isProcessing && <NarrationPlayer controls={narrationControls} />}
           {isProcessing && (
             <Animated.View
               style={{
@@ -488,7 +457,7 @@ export default function WelcomeScreen({ onComplete }: WelcomeScreenProps) {
               }}
             >
               <Text className="text-lg text-black text-center leading-relaxed">
-                {currentSubtitle}
+                {narrationControls.subtitle}
               </Text>
             </Animated.View>
           )}
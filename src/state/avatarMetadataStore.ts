@@ -0,0 +1,34 @@
+import { create } from "zustand";
+import { persist, createJSONStorage } from "zustand/middleware";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import type { AvatarMetadata } from "../avatars/types";
+
+// Enough for the avatar history; the least recently stored avatars are dropped beyond this
+const MAX_ENTRIES = 20;
+
+interface AvatarMetadataStore {
+  entries: Record<string, AvatarMetadata>;
+  setMetadata: (metadata: AvatarMetadata) => void;
+  clear: () => void;
+}
+
+// Avatar metadata by avatar ID, persisted so the viewer knows an avatar's gender and body type before going online
+const useAvatarMetadataStore = create<AvatarMetadataStore>()(
+  persist(
+    (set, get) => ({
+      entries: {},
+      setMetadata: (metadata) => {
+        const { [metadata.avatarId]: _previous, ...others } = get().entries;
+        const entries = Object.entries(others).slice(-(MAX_ENTRIES - 1));
+        set({ entries: { ...Object.fromEntries(entries), [metadata.avatarId]: metadata } });
+      },
+      clear: () => set({ entries: {} }),
+    }),
+    {
+      name: "avatar-metadata-storage",
+      storage: createJSONStorage(() => AsyncStorage),
+    },
+  ),
+);
+
+export default useAvatarMetadataStore;
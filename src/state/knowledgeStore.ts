@@ -0,0 +1,90 @@
+import { useEffect, useState } from "react";
+import { create } from "zustand";
+import { persist, createJSONStorage } from "zustand/middleware";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { v4 as uuidv4 } from "uuid";
+
+export type KnowledgeSectionId = "companyOverview" | "products" | "pricing" | "faqs" | "toneOfVoice";
+
+export interface KnowledgeSectionDefinition {
+  id: KnowledgeSectionId;
+}
+
+// The structured sections shown in the training workspace, in display order
+// Titles and placeholders are translated under training.section.<id>
+export const KNOWLEDGE_SECTIONS: KnowledgeSectionDefinition[] = [
+  { id: "companyOverview" },
+  { id: "products" },
+  { id: "pricing" },
+  { id: "faqs" },
+  { id: "toneOfVoice" },
+];
+
+export interface KnowledgeNote {
+  id: string;
+  title: string;
+  content: string;
+  updatedAt: number;
+}
+
+interface KnowledgeStore {
+  sections: Partial<Record<KnowledgeSectionId, { content: string; updatedAt: number }>>;
+  notes: KnowledgeNote[];
+  lastSavedAt: number | null;
+  saveSection: (id: KnowledgeSectionId, content: string) => void;
+  addNote: () => string;
+  saveNote: (id: string, update: Partial<Pick<KnowledgeNote, "title" | "content">>) => void;
+  removeNote: (id: string) => void;
+  clear: () => void;
+}
+
+// Business knowledge the user teaches their agent, persisted on device
+const useKnowledgeStore = create<KnowledgeStore>()(
+  persist(
+    (set, get) => ({
+      sections: {},
+      notes: [],
+      lastSavedAt: null,
+      saveSection: (id, content) => {
+        const now = Date.now();
+        set({ sections: { ...get().sections, [id]: { content, updatedAt: now } }, lastSavedAt: now });
+      },
+      addNote: () => {
+        const now = Date.now();
+        const note: KnowledgeNote = { id: uuidv4(), title: "", content: "", updatedAt: now };
+        set({ notes: [...get().notes, note], lastSavedAt: now });
+        return note.id;
+      },
+      saveNote: (id, update) => {
+        const now = Date.now();
+        set({
+          notes: get().notes.map((note) => (note.id === id ? { ...note, ...update, updatedAt: now } : note)),
+          lastSavedAt: now,
+        });
+      },
+      removeNote: (id) => set({ notes: get().notes.filter((note) => note.id !== id), lastSavedAt: Date.now() }),
+      clear: () => set({ sections: {}, notes: [], lastSavedAt: null }),
+    }),
+    {
+      name: "knowledge-storage",
+      storage: createJSONStorage(() => AsyncStorage),
+    },
+  ),
+);
+
+/**
+ * Whether the saved knowledge has been loaded from storage
+ */
+export const useKnowledgeHydrated = () => {
+  const [hydrated, setHydrated] = useState(useKnowledgeStore.persist.hasHydrated());
+
+  useEffect(() => {
+    const unsubscribe = useKnowledgeStore.persist.onFinishHydration(() => setHydrated(true));
+    setHydrated(useKnowledgeStore.persist.hasHydrated());
+    return unsubscribe;
+  }, []);
+
+  return hydrated;
+};
+
+export default useKnowledgeStore;
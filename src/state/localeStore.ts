@@ -0,0 +1,26 @@
+import { create } from "zustand";
+import { persist, createJSONStorage } from "zustand/middleware";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import type { AppLocale } from "../i18n/locales";
+
+interface LocaleStore {
+  // null follows the device language
+  locale: AppLocale | null;
+  setLocale: (locale: AppLocale | null) => void;
+}
+
+// The language the user picked, persisted so narration and the avatar creator stay in it across launches
+const useLocaleStore = create<LocaleStore>()(
+  persist(
+    (set) => ({
+      locale: null,
+      setLocale: (locale) => set({ locale }),
+    }),
+    {
+      name: "locale-storage",
+      storage: createJSONStorage(() => AsyncStorage),
+    },
+  ),
+);
+
+export default useLocaleStore;
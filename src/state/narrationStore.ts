@@ -0,0 +1,27 @@
+import { create } from "zustand";
+import { persist, createJSONStorage } from "zustand/middleware";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+// Speeds offered by the narration player, slowest first
+export const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 2];
+
+interface NarrationStore {
+  playbackRate: number;
+  setPlaybackRate: (rate: number) => void;
+}
+
+// Narration preferences, persisted so a user who speeds Tava up doesn't have to do it on every screen
+const useNarrationStore = create<NarrationStore>()(
+  persist(
+    (set) => ({
+      playbackRate: 1,
+      setPlaybackRate: (playbackRate) => set({ playbackRate }),
+    }),
+    {
+      name: "narration-storage",
+      storage: createJSONStorage(() => AsyncStorage),
+    },
+  ),
+);
+
+export default useNarrationStore;
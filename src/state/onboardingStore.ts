@@ -0,0 +1,111 @@
+import { useEffect, useState } from "react";
+import { create } from "zustand";
+import { persist, createJSONStorage } from "zustand/middleware";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { clearRpmSession } from "../avatars";
+import {
+  initialOnboardingState,
+  OnboardingAction,
+  OnboardingContext,
+  onboardingReducer,
+  OnboardingState,
+  OnboardingStep,
+} from "../onboarding/flow";
+
+export interface OnboardingStepTimestamps {
+  enteredAt: number;
+  completedAt?: number;
+}
+
+interface OnboardingStore extends OnboardingState {
+  completedSteps: OnboardingStep[];
+  stepTimestamps: Partial<Record<OnboardingStep, OnboardingStepTimestamps>>;
+  startedAt: number;
+  updatedAt: number;
+  dispatch: (action: OnboardingAction) => void;
+  updateProfile: (context: Partial<OnboardingContext>) => void;
+  startOver: () => void;
+}
+
+const createInitialProgress = () => {
+  const now = Date.now();
+  return {
+    ...initialOnboardingState,
+    completedSteps: [] as OnboardingStep[],
+    stepTimestamps: { [initialOnboardingState.step]: { enteredAt: now } },
+    startedAt: now,
+    updatedAt: now,
+  };
+};
+
+// Onboarding progress and profile, persisted so a killed app resumes where the user left off
+const useOnboardingStore = create<OnboardingStore>()(
+  persist(
+    (set, get) => ({
+      ...createInitialProgress(),
+      dispatch: (action) => {
+        if (action.type === "reset") {
+          clearRpmSession();
+          set(createInitialProgress());
+          return;
+        }
+
+        const current = get();
+        const next = onboardingReducer(current, action);
+        const now = Date.now();
+
+        if (next.step === current.step) {
+          set({ context: next.context, updatedAt: now });
+          return;
+        }
+
+        // Moving forward completes the step being left; going back leaves it unfinished
+        const isForward = action.type !== "back";
+        const stepTimestamps = { ...current.stepTimestamps };
+        if (isForward) {
+          stepTimestamps[current.step] = { enteredAt: now, ...stepTimestamps[current.step], completedAt: now };
+        }
+        stepTimestamps[next.step] = { ...stepTimestamps[next.step], enteredAt: now };
+
+        set({
+          step: next.step,
+          history: next.history,
+          context: next.context,
+          completedSteps:
+            isForward && !current.completedSteps.includes(current.step)
+              ? [...current.completedSteps, current.step]
+              : current.completedSteps,
+          stepTimestamps,
+          updatedAt: now,
+        });
+      },
+      updateProfile: (context) => set({ context: { ...get().context, ...context }, updatedAt: Date.now() }),
+      startOver: () => {
+        // Starting over forgets the Ready Player Me user, so their token goes too
+        clearRpmSession();
+        set(createInitialProgress());
+      },
+    }),
+    {
+      name: "onboarding-storage",
+      storage: createJSONStorage(() => AsyncStorage),
+    },
+  ),
+);
+
+/**
+ * Whether the persisted onboarding progress has been loaded from storage
+ */
+export const useOnboardingHydrated = () => {
+  const [hydrated, setHydrated] = useState(useOnboardingStore.persist.hasHydrated());
+
+  useEffect(() => {
+    const unsubscribe = useOnboardingStore.persist.onFinishHydration(() => setHydrated(true));
+    setHydrated(useOnboardingStore.persist.hasHydrated());
+    return unsubscribe;
+  }, []);
+
+  return hydrated;
+};
+
+export default useOnboardingStore;
@@ -0,0 +1,30 @@
+import { create } from "zustand";
+import { persist, createJSONStorage } from "zustand/middleware";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { UsageEntry } from "../usage/types";
+
+// Oldest entries are dropped beyond this so the ledger can't grow without bound
+const MAX_ENTRIES = 2000;
+
+interface UsageStore {
+  entries: UsageEntry[];
+  addEntry: (entry: UsageEntry) => void;
+  clear: () => void;
+}
+
+// Every billable AI and TTS call made on this device, oldest first
+const useUsageStore = create<UsageStore>()(
+  persist(
+    (set, get) => ({
+      entries: [],
+      addEntry: (entry) => set({ entries: [...get().entries, entry].slice(-MAX_ENTRIES) }),
+      clear: () => set({ entries: [] }),
+    }),
+    {
+      name: "usage-storage",
+      storage: createJSONStorage(() => AsyncStorage),
+    },
+  ),
+);
+
+export default useUsageStore;
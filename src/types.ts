@@ -15,11 +15,28 @@ export type Language =
   | 'kr'
   | 'ch';
 
+export type Gender = 'male' | 'female';
+
+/**
+ * Options for the avatar creator URL
+ * More info about the creator's URL parameters is available here:
+ *
+ * https://docs.readyplayer.me/ready-player-me/integration-guides/web-and-native-integration/avatar-creator-integration
+ */
 export type AvatarCreatorConfig = {
   clearCache?: boolean;
+  // Setting a body type also skips the body type screen
   bodyType?: BodyType;
+  // Show the body type screen; ignored when bodyType is set
+  selectBodyType?: boolean;
+  // Preselect the avatar's gender, which skips the gender screen
+  gender?: Gender;
   quickStart?: boolean;
   language?: Language;
+  // Session token from the Ready Player Me auth API, to log an existing user in
+  token?: string;
+  // Open this avatar for editing instead of starting a new one
+  avatarId?: string;
 };
 
 /**
@@ -34,8 +51,8 @@ export type Avatar2DConfig = {
   camera?: 'fullbody' | 'portrait';
 };
 
-export type IFrameEvent<TPayload> = {
-  eventName?: string;
+export type IFrameEvent<TPayload, TEventName extends string = string> = {
+  eventName: TEventName;
   source?: string;
   data: TPayload;
 };
@@ -1,24 +1,101 @@
+import type { UsageFeature } from "../usage/types";
+
+export interface AITextPart {
+  type: "text";
+  text: string;
+}
+
+export type AIImageMediaType = "image/jpeg" | "image/png" | "image/gif" | "image/webp";
+
+export type AIImageSource = { type: "url"; url: string } | { type: "base64"; mediaType: AIImageMediaType; data: string };
+
+export interface AIImagePart {
+  type: "image";
+  source: AIImageSource;
+}
+
+export type AIContentPart = AITextPart | AIImagePart;
+
+// A tool the model asked to run, with its arguments already parsed from JSON
+export interface AIToolCall {
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+  // Set when the arguments weren't a valid JSON object; the call is answered with this error instead of run
+  inputError?: string;
+}
+
+/**
+ * A message in a conversation
+ * Content is either plain text or a list of parts, so user messages can mix text with images.
+ * System messages may only contain text; adapters move them to wherever their API expects instructions.
+ * Assistant messages carry the tool calls the model made, and each result goes back in a "tool" message
+ * whose `toolCallId` matches the call.
+ */
 export interface AIMessage {
-  role: "user" | "assistant" | "system";
-  content: string;
+  role: "user" | "assistant" | "system" | "tool";
+  content: string | AIContentPart[];
+  toolCalls?: AIToolCall[];
+  toolCallId?: string;
+  isError?: boolean;
+}
+
+/**
+ * An action the model may take
+ * `parameters` is a JSON schema object describing the input the handler receives.
+ */
+export interface AITool<TInput = Record<string, unknown>> {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+  // A method, so tools with typed inputs can go in the same AITool[] list
+  handler(input: TInput): unknown | Promise<unknown>;
 }
 
+export type AIToolChoice = "auto" | "required" | "none";
+
 export interface AIRequestOptions {
   temperature?: number;
   maxTokens?: number;
   model?: string;
+  // Instructions for the model; combined with any system messages, which it precedes
+  system?: string;
+  tools?: AITool[];
+  toolChoice?: AIToolChoice;
+  // Which part of the app the call is for, recorded in the usage ledger
+  feature?: UsageFeature;
+}
+
+export interface AIUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
 }
 
 export interface AIResponse {
   content: string;
-  usage?: {
-    promptTokens: number;
-    completionTokens: number;
-    totalTokens: number;
-  };
+  usage?: AIUsage;
+  // Set when the model stopped to run tools instead of answering
+  toolCalls?: AIToolCall[];
+}
+
+export interface AIStreamOptions extends AIRequestOptions {
+  signal?: AbortSignal;
+  onDelta?: (delta: string) => void;
+}
+
+/**
+ * A streamed completion
+ * Iterate it for text deltas, or await `response` for the full text, tool calls and final usage.
+ * The request runs whether or not it is iterated, so callback-only consumers can just use `onDelta`.
+ */
+export interface AIStream extends AsyncIterable<string> {
+  response: Promise<AIResponse>;
+  abort(): void;
 }
 
 export interface AIService {
   chat(messages: AIMessage[], options?: AIRequestOptions): Promise<AIResponse>;
   complete(prompt: string, options?: AIRequestOptions): Promise<AIResponse>;
+  stream(messages: AIMessage[], options?: AIStreamOptions): AIStream;
 }
@@ -0,0 +1,4 @@
+export type * from "./types";
+export { recordUsage, queryUsage, summarizeUsage, clearUsage } from "./ledger";
+export { DEFAULT_PRICE_TABLE, setPriceTable, getPriceTable, estimateCost } from "./prices";
+export type { ModelPrice, PriceTable } from "./prices";
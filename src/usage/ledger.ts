@@ -0,0 +1,84 @@
+import { v4 as uuidv4 } from "uuid";
+import useUsageStore from "../state/usageStore";
+import { estimateCost } from "./prices";
+import { UsageEntry, UsageFilter, UsageRecord, UsageSummary, UsageTotals } from "./types";
+
+/**
+ * Add a call to the usage ledger
+ * Never throws, so bookkeeping can't break the call it describes.
+ * @param record - What was called, for which feature, and what it consumed
+ */
+export const recordUsage = (record: UsageRecord) => {
+  try {
+    const { kind, provider, model, feature = "other", ...quantities } = record;
+    useUsageStore.getState().addEntry({
+      ...quantities,
+      id: uuidv4(),
+      timestamp: Date.now(),
+      kind,
+      provider,
+      model,
+      feature,
+      costUsd: estimateCost(model, quantities),
+    });
+  } catch (error) {
+    console.warn("[Usage] Could not record usage:", error);
+  }
+};
+
+/**
+ * Get recorded calls, oldest first
+ * @param filter - Only return entries matching every field that is set
+ */
+export const queryUsage = (filter: UsageFilter = {}): UsageEntry[] =>
+  useUsageStore
+    .getState()
+    .entries.filter(
+      (entry) =>
+        (!filter.kind || entry.kind === filter.kind) &&
+        (!filter.provider || entry.provider === filter.provider) &&
+        (!filter.feature || entry.feature === filter.feature) &&
+        (filter.since === undefined || entry.timestamp >= filter.since) &&
+        (filter.until === undefined || entry.timestamp < filter.until),
+    );
+
+const emptyTotals = (): UsageTotals => ({
+  calls: 0,
+  costUsd: 0,
+  unpricedCalls: 0,
+  inputTokens: 0,
+  outputTokens: 0,
+  characters: 0,
+  images: 0,
+  audioSeconds: 0,
+});
+
+const addToTotals = (totals: UsageTotals, entry: UsageEntry) => {
+  totals.calls += 1;
+  totals.costUsd += entry.costUsd ?? 0;
+  totals.unpricedCalls += entry.costUsd === undefined ? 1 : 0;
+  totals.inputTokens += entry.inputTokens ?? 0;
+  totals.outputTokens += entry.outputTokens ?? 0;
+  totals.characters += entry.characters ?? 0;
+  totals.images += entry.images ?? 0;
+  totals.audioSeconds += entry.audioSeconds ?? 0;
+};
+
+/**
+ * Total up entries overall and by feature, provider and kind
+ * @param entries - The entries to total, e.g. from queryUsage()
+ */
+export const summarizeUsage = (entries: UsageEntry[]): UsageSummary => {
+  const summary: UsageSummary = { total: emptyTotals(), byFeature: {}, byProvider: {}, byKind: {} };
+
+  for (const entry of entries) {
+    addToTotals(summary.total, entry);
+    addToTotals((summary.byFeature[entry.feature] ??= emptyTotals()), entry);
+    addToTotals((summary.byProvider[entry.provider] ??= emptyTotals()), entry);
+    addToTotals((summary.byKind[entry.kind] ??= emptyTotals()), entry);
+  }
+
+  return summary;
+};
+
+export const clearUsage = () => useUsageStore.getState().clear();
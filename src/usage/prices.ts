@@ -0,0 +1,60 @@
+import { UsageQuantities } from "./types";
+
+/**
+ * What one unit of each quantity costs for a model, in USD
+ * Only the rates that apply to the model need to be set.
+ */
+export interface ModelPrice {
+  inputPerMillionTokens?: number;
+  outputPerMillionTokens?: number;
+  perThousandCharacters?: number;
+  perImage?: number;
+  perAudioMinute?: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+// List prices at the time of writing; override with setPriceTable() when plans or rates change
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  "claude-3-5-sonnet-20240620": { inputPerMillionTokens: 3, outputPerMillionTokens: 15 },
+  "gpt-4o": { inputPerMillionTokens: 2.5, outputPerMillionTokens: 10 },
+  "grok-3-beta": { inputPerMillionTokens: 3, outputPerMillionTokens: 15 },
+  "text-embedding-3-small": { inputPerMillionTokens: 0.02 },
+  // Varies with quality and size; this is medium quality at 1024x1024
+  "gpt-image-1": { perImage: 0.042 },
+  "gpt-4o-transcribe": { perAudioMinute: 0.006 },
+  eleven_flash_v2_5: { perThousandCharacters: 0.05 },
+  eleven_multilingual_v2: { perThousandCharacters: 0.1 },
+};
+
+let priceTable: PriceTable = { ...DEFAULT_PRICE_TABLE };
+
+/**
+ * Replace or add model prices
+ * Only affects calls recorded afterwards; existing entries keep the cost estimated when they were recorded.
+ * @param prices - Prices by model id, merged over the current table
+ */
+export const setPriceTable = (prices: PriceTable) => {
+  priceTable = { ...priceTable, ...prices };
+};
+
+export const getPriceTable = (): PriceTable => priceTable;
+
+/**
+ * Estimate what a call cost
+ * @param model - The model id the call was made with
+ * @param quantities - What the call consumed
+ * @returns The cost in USD, or undefined if the model has no price
+ */
+export const estimateCost = (model: string, quantities: UsageQuantities): number | undefined => {
+  const price = priceTable[model];
+  if (!price) return undefined;
+
+  return (
+    ((quantities.inputTokens ?? 0) * (price.inputPerMillionTokens ?? 0)) / 1_000_000 +
+    ((quantities.outputTokens ?? 0) * (price.outputPerMillionTokens ?? 0)) / 1_000_000 +
+    ((quantities.characters ?? 0) * (price.perThousandCharacters ?? 0)) / 1000 +
+    (quantities.images ?? 0) * (price.perImage ?? 0) +
+    ((quantities.audioSeconds ?? 0) * (price.perAudioMinute ?? 0)) / 60
+  );
+};
@@ -0,0 +1,64 @@
+export type UsageKind = "chat" | "embedding" | "image" | "transcription" | "tts";
+
+export type UsageProvider = "anthropic" | "openai" | "grok" | "elevenlabs";
+
+/**
+ * The part of the app a call was made for, so costs can be broken down by feature
+ */
+export type UsageFeature =
+  | "narration"
+  | "avatarGreeting"
+  | "nameCapture"
+  | "agentChat"
+  | "knowledgeIndexing"
+  | "other";
+
+/**
+ * What a call consumed; which fields are set depends on the kind
+ * - chat and embedding: tokens
+ * - tts: characters
+ * - image: images
+ * - transcription: audio seconds, when the caller knows the recording length
+ */
+export interface UsageQuantities {
+  inputTokens?: number;
+  outputTokens?: number;
+  characters?: number;
+  images?: number;
+  audioSeconds?: number;
+}
+
+export interface UsageEntry extends UsageQuantities {
+  id: string;
+  timestamp: number;
+  kind: UsageKind;
+  provider: UsageProvider;
+  model: string;
+  feature: UsageFeature;
+  // Estimated at record time from the price table; undefined when the model has no price
+  costUsd?: number;
+}
+
+export type UsageRecord = Omit<UsageEntry, "id" | "timestamp" | "costUsd" | "feature"> & { feature?: UsageFeature };
+
+export interface UsageFilter {
+  kind?: UsageKind;
+  provider?: UsageProvider;
+  feature?: UsageFeature;
+  since?: number;
+  until?: number;
+}
+
+export interface UsageTotals extends Required<UsageQuantities> {
+  calls: number;
+  costUsd: number;
+  // Calls whose model had no price, so costUsd undercounts them
+  unpricedCalls: number;
+}
+
+export interface UsageSummary {
+  total: UsageTotals;
+  byFeature: Partial<Record<UsageFeature, UsageTotals>>;
+  byProvider: Partial<Record<UsageProvider, UsageTotals>>;
+  byKind: Partial<Record<UsageKind, UsageTotals>>;
+}
@@ -0,0 +1,17 @@
+export type InterpolationVariables = Record<string, string | undefined>;
+
+/**
+ * Fill {name} placeholders in a template
+ * Missing variables are logged and left out rather than shown or spoken as "{name}".
+ * @param template - Text with {name} placeholders
+ * @param variables - Values by placeholder name
+ */
+export const interpolate = (template: string, variables: InterpolationVariables = {}) =>
+  template.replace(/\{(\w+)\}/g, (_, name: string) => {
+    const value = variables[name];
+    if (value === undefined) {
+      console.warn(`[Interpolate] Missing variable "${name}"`);
+      return "";
+    }
+    return value;
+  });
@@ -0,0 +1,13 @@
+/**
+ * JSON.parse that returns undefined instead of throwing
+ * For input we don't control, such as WebView messages, where one malformed string must not crash the app.
+ * @param text - The JSON text
+ * @returns The parsed value, or undefined if the text isn't valid JSON
+ */
+export const safeJsonParse = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
@@ -0,0 +1,150 @@
+import type { SpeechAlignment } from "../api/text-to-speech";
+
+export interface SubtitleCue {
+  text: string;
+  startMs: number;
+  endMs: number;
+}
+
+// Blank gap between chunks when timing is estimated, for visual separation
+const UNIFORM_GAP_MS = 100;
+
+// Shorter silences are just word boundaries and don't clear the line
+const MIN_PAUSE_MS = 80;
+
+/**
+ * Split text into single subtitle lines
+ * @param text - The full spoken text
+ * @param maxChars - Roughly how many characters fit on one line
+ */
+export const splitIntoChunks = (text: string, maxChars = 50): string[] => {
+  const words = text.split(" ");
+  const chunks: string[] = [];
+  let currentChunk = "";
+
+  words.forEach((word) => {
+    const testChunk = currentChunk ? `${currentChunk} ${word}` : word;
+    if (testChunk.length > maxChars && currentChunk) {
+      chunks.push(currentChunk);
+      currentChunk = word;
+    } else {
+      currentChunk = testChunk;
+    }
+  });
+
+  if (currentChunk) {
+    chunks.push(currentChunk);
+  }
+
+  return chunks;
+};
+
+// Spread the clip duration evenly across words
+const buildUniformCues = (chunks: string[], durationMs: number): SubtitleCue[] => {
+  const totalWords = chunks.reduce((sum, chunk) => sum + chunk.split(" ").length, 0);
+  const msPerWord = durationMs / totalWords;
+  const cues: SubtitleCue[] = [];
+  let startMs = 0;
+
+  chunks.forEach((chunk, i) => {
+    const chunkMs = chunk.split(" ").length * msPerWord;
+    const isLast = i === chunks.length - 1;
+    cues.push({ text: chunk, startMs, endMs: isLast ? startMs + chunkMs : startMs + chunkMs - UNIFORM_GAP_MS });
+    startMs += chunkMs;
+  });
+
+  return cues;
+};
+
+// Carry the spoken timing over to the displayed text, which differs where a name was respelled for speech
+// The shared start and end keep their own timing; the differing span in between takes the spoken span's time
+const mapAlignmentToText = (alignment: SpeechAlignment, text: string): SpeechAlignment => {
+  const spoken = alignment.characters.join("");
+  if (spoken === text || !spoken || !text) return alignment;
+
+  let prefix = 0;
+  while (prefix < spoken.length && prefix < text.length && spoken[prefix] === text[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < spoken.length - prefix &&
+    suffix < text.length - prefix &&
+    spoken[spoken.length - 1 - suffix] === text[text.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const spokenEnd = spoken.length - suffix;
+  const textEnd = text.length - suffix;
+  const startTimesMs: number[] = [];
+  const endTimesMs: number[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    let source: number;
+    if (i < prefix) {
+      source = i;
+    } else if (i >= textEnd) {
+      source = i - textEnd + spokenEnd;
+    } else if (spokenEnd > prefix) {
+      source = prefix + Math.floor(((i - prefix) * (spokenEnd - prefix)) / (textEnd - prefix));
+    } else {
+      // Nothing was spoken for this span, so it shares the neighbouring character's timing
+      source = Math.min(prefix, spoken.length - 1);
+    }
+    startTimesMs.push(alignment.startTimesMs[source]);
+    endTimesMs.push(alignment.endTimesMs[source]);
+  }
+
+  return { characters: text.split(""), startTimesMs, endTimesMs };
+};
+
+// Map each chunk back to its characters in the spoken text and read their timing
+const buildAlignedCues = (text: string, chunks: string[], alignment: SpeechAlignment): SubtitleCue[] | null => {
+  if (alignment.characters.join("") !== text) {
+    return null;
+  }
+
+  const cues: SubtitleCue[] = [];
+  let cursor = 0;
+
+  for (const chunk of chunks) {
+    const start = text.indexOf(chunk, cursor);
+    if (start === -1) return null;
+    const end = start + chunk.length - 1;
+    cursor = end + 1;
+    cues.push({ text: chunk, startMs: alignment.startTimesMs[start], endMs: alignment.endTimesMs[end] });
+  }
+
+  return cues;
+};
+
+/**
+ * Build timed subtitle cues for a spoken clip
+ * Uses the synthesizer's character timing when available, otherwise spreads the duration evenly across words.
+ * @param text - The text to show, which may differ from what was synthesized where a name was respelled
+ * @param durationMs - The clip length
+ * @param alignment - Optional character timing returned by the synthesizer
+ */
+export const buildSubtitleCues = (text: string, durationMs: number, alignment?: SpeechAlignment): SubtitleCue[] => {
+  const chunks = splitIntoChunks(text);
+  const aligned = alignment ? buildAlignedCues(text, chunks, mapAlignmentToText(alignment, text)) : null;
+  return aligned ?? buildUniformCues(chunks, durationMs);
+};
+
+/**
+ * The line to show at a point in the clip
+ * Driven by the audio's own position, so subtitles follow pauses, replays and rate changes.
+ * @param cues - Cues from buildSubtitleCues
+ * @param positionMs - Playback position in the clip
+ * @returns The current line, or "" before the first line and during pauses between lines
+ */
+export const getSubtitleAt = (cues: SubtitleCue[], positionMs: number): string => {
+  let index = -1;
+  while (index + 1 < cues.length && cues[index + 1].startMs <= positionMs) index++;
+  if (index === -1) return "";
+
+  const cue = cues[index];
+  const next = cues[index + 1];
+  // Clear the line during pauses before the next one; the last line stays up until the clip ends
+  if (next && positionMs > cue.endMs && next.startMs - cue.endMs >= MIN_PAUSE_MS) return "";
+  return cue.text;
+};
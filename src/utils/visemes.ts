@@ -0,0 +1,120 @@
+import type { SpeechAlignment } from "../api/text-to-speech";
+
+/**
+ * Oculus viseme morph target names shipped in Ready Player Me GLBs
+ * when the model is requested with morphTargets=Oculus Visemes
+ */
+export type Viseme =
+  | "viseme_sil"
+  | "viseme_PP"
+  | "viseme_FF"
+  | "viseme_TH"
+  | "viseme_DD"
+  | "viseme_kk"
+  | "viseme_CH"
+  | "viseme_SS"
+  | "viseme_nn"
+  | "viseme_RR"
+  | "viseme_aa"
+  | "viseme_E"
+  | "viseme_I"
+  | "viseme_O"
+  | "viseme_U";
+
+export interface VisemeCue {
+  viseme: Viseme;
+  startMs: number;
+  endMs: number;
+  // How far the jaw opens, used to drive mouthOpen on models without viseme targets
+  openness: number;
+}
+
+const DIGRAPHS: Record<string, Viseme> = {
+  ch: "viseme_CH",
+  sh: "viseme_CH",
+  th: "viseme_TH",
+  ph: "viseme_FF",
+  ng: "viseme_nn",
+};
+
+const LETTERS: Record<string, Viseme> = {
+  a: "viseme_aa",
+  e: "viseme_E",
+  i: "viseme_I",
+  y: "viseme_I",
+  o: "viseme_O",
+  u: "viseme_U",
+  w: "viseme_U",
+  p: "viseme_PP",
+  b: "viseme_PP",
+  m: "viseme_PP",
+  f: "viseme_FF",
+  v: "viseme_FF",
+  t: "viseme_DD",
+  d: "viseme_DD",
+  k: "viseme_kk",
+  g: "viseme_kk",
+  c: "viseme_kk",
+  q: "viseme_kk",
+  x: "viseme_kk",
+  h: "viseme_kk",
+  j: "viseme_CH",
+  s: "viseme_SS",
+  z: "viseme_SS",
+  n: "viseme_nn",
+  l: "viseme_nn",
+  r: "viseme_RR",
+};
+
+const OPENNESS: Record<Viseme, number> = {
+  viseme_sil: 0,
+  viseme_PP: 0,
+  viseme_FF: 0.15,
+  viseme_TH: 0.2,
+  viseme_DD: 0.25,
+  viseme_kk: 0.3,
+  viseme_CH: 0.25,
+  viseme_SS: 0.15,
+  viseme_nn: 0.2,
+  viseme_RR: 0.3,
+  viseme_aa: 0.8,
+  viseme_E: 0.55,
+  viseme_I: 0.4,
+  viseme_O: 0.7,
+  viseme_U: 0.45,
+};
+
+/**
+ * Convert character timing from the synthesizer into viseme cues
+ * This is a spelling-based approximation, close enough for a talking head at conversational speed.
+ * @param alignment - Character timing for the spoken clip
+ * @returns Cues in playback order, with consecutive identical visemes merged
+ */
+export const buildVisemeCues = (alignment: SpeechAlignment): VisemeCue[] => {
+  const { characters, startTimesMs, endTimesMs } = alignment;
+  const cues: VisemeCue[] = [];
+
+  const push = (viseme: Viseme, startMs: number, endMs: number) => {
+    const previous = cues[cues.length - 1];
+    if (previous && previous.viseme === viseme) {
+      previous.endMs = endMs;
+      return;
+    }
+    cues.push({ viseme, startMs, endMs, openness: OPENNESS[viseme] });
+  };
+
+  for (let i = 0; i < characters.length; i++) {
+    const char = characters[i].toLowerCase();
+    const digraph = DIGRAPHS[char + (characters[i + 1]?.toLowerCase() ?? "")];
+
+    if (digraph) {
+      push(digraph, startTimesMs[i], endTimesMs[i + 1]);
+      i += 1;
+      continue;
+    }
+
+    push(LETTERS[char] ?? "viseme_sil", startTimesMs[i], endTimesMs[i]);
+  }
+
+  return cues;
+};